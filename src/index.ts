@@ -7,38 +7,483 @@ import { Router } from 'itty-router';
 export interface Env {
     BOT_TOKEN: string;
     KV_BINDING: KVNamespace;
+    USER_LOCK: DurableObjectNamespace; // One UserLock instance per target user (see wrangler.toml)
+    WEBHOOK_SECRET?: string; // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token (set with setWebhook); required
+    PAYMENT_VERIFIER?: string; // Name of a PAYMENT_VERIFIERS entry (e.g. "mock"); unset = manual review only
+    ADMIN_SETUP_CODE?: string; // One-time code for /claim_admin on a deployment with no admins yet
+    CHAPA_SECRET_KEY?: string; // Enables the "Pay online" checkout (Chapa API secret key)
+    CHAPA_WEBHOOK_SECRET?: string; // Signs Chapa webhooks (x-chapa-signature), set in the Chapa dashboard
+    CHAPA_API_BASE?: string; // Defaults to https://api.chapa.co; point at a local fake server for testing
+    TELEGRAM_API_BASE?: string; // Defaults to https://api.telegram.org; point at a local fake Bot API for testing
 }
 
 const router = Router();
 const ADMIN_LIST_KEY = "telegram_admin_ids";
+const ADMIN_CLAIMED_KEY = "admin_setup_claimed";     // Set once /claim_admin succeeds; the command never works again
+const CLAIM_ATTEMPTS_PREFIX = "claim_admin_attempts:"; // Failed /claim_admin attempts per user (1 hour TTL)
+const MAX_CLAIM_ATTEMPTS = 5;
 const CHANNEL_ID_KEY = "target_channel_id";
+const CHANNEL_REGISTRY_KEY = "channel_registry";
 const PAYMENT_AMOUNT_KEY = "payment_amount_etb";
 const PAYMENT_PHONE_KEY = "payment_phone_number";
-const USER_ID_LIST_KEY = "registered_user_ids";
+const USER_ID_LIST_KEY = "registered_user_ids";     // Legacy: single JSON array, migrated to USER_PROFILE_PREFIX keys
+const LEGACY_APPROVED_MIGRATED_KEY = "legacy_approved_states_migrated"; // Set once approved states got subscriber records
+const PLANS_KEY = "subscription_plans";
+const LINK_GUARD_KEY = "link_guard_mode";             // LINK_GUARD_MODE for members who join with someone else's link
+const ACCESS_MODE_KEY = "channel_access_mode";        // ACCESS_MODE: how approved users get into the channel
 const ADMIN_PENDING_PREFIX = "admin_pending_command:"; // Key prefix for admin state
 const USER_STATE_PREFIX = "user_payment_state:";     // Key prefix for user state
+const USER_PROFILE_PREFIX = "user_profile:";          // One key per registered user (user_profile:<user>)
+const USER_STATUS_INDEX_PREFIX = "user_status:";      // Status index (user_status:<STATE>:<user>), expires with the state
+const USER_STATE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const USER_PAGE_SIZE = 20;
+const AUDIT_LOG_PREFIX = "audit_log:";                // Key prefix for audit entries (newest first)
+const AUDIT_PAGE_SIZE = 10;
+const PAYMENT_TRANSACTION_PREFIX = "payment_txn:";   // Who submitted, or was approved with, each SMS transaction ID (payment_txn:<ID>)
+const CHECKOUT_PREFIX = "checkout:";                  // Online checkout sessions by tx_ref (checkout:<tx_ref>)
+const CHECKOUT_TTL_SECONDS = 2 * 24 * 60 * 60;
+const DEFAULT_CHAPA_API_BASE = "https://api.chapa.co";
+const DEFAULT_TELEGRAM_API_BASE = "https://api.telegram.org";
+const TELEGRAM_MAX_ATTEMPTS = 3;                      // First try plus retries for 429s and 5xx/network errors
+const TELEGRAM_RETRY_BASE_MS = 500;                   // 5xx/network back-off: 500ms, then 1s
+const TELEGRAM_MAX_RETRY_AFTER_SECONDS = 5;           // Longer 429 waits are returned as RATE_LIMITED instead
+const SUBSCRIPTION_PREFIX = "subscription:";          // Key prefix for durable subscriber records (subscription:<user>:<channel>)
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const MONTH_IN_MS = 30 * DAY_IN_MS;                   // Subscription period
+const REMINDER_DAYS_BEFORE_EXPIRY = [3, 1];           // Expiry reminders, in days before expiresAt
+const BAN_DURATION_DAYS = [1, 7, 30];                 // Temporary ban choices offered next to Revoke (plus permanently)
+const PERMANENT_BAN = 0;                              // banDays / bannedUntil value for a ban without end date
+const USER_LOCK_TTL_MS = 30 * 1000;                   // A crashed holder's lock frees itself after this
+const WEBHOOK_ALLOWED_UPDATES = ["message", "callback_query", "chat_member", "chat_join_request"]; // Update types requested in setWebhook (chat_member is only sent when listed)
+const INVITE_LINK_PREFIX = "invite_link:";            // Who each bot-created invite link was made for (invite_link:<link>)
+const JOIN_REQUEST_LINK_PREFIX = "join_request_link:"; // Each channel's shared join-request link (join_request_link:<channel>)
+const INVITE_LINK_TTL_SECONDS = 366 * 24 * 60 * 60;
+const BROADCAST_PREFIX = "broadcast:";                // Broadcast jobs by ID (broadcast:<id>)
+const BROADCAST_QUEUE_PREFIX = "broadcast_queue:";   // One key per broadcast still sending (broadcast_queue:<createdAt>:<id>), oldest first
+const BROADCAST_DRAFT_PREFIX = "broadcast_draft:";    // Message and segment picked in the composer (broadcast_draft:<admin>)
+const BROADCAST_DRAFT_TTL_SECONDS = 60 * 60;
+const BROADCAST_JOB_TTL_SECONDS = 30 * 24 * 60 * 60;  // Finished jobs are kept this long for their report
+const BROADCAST_LOCK_NAME = "broadcast_queue";        // UserLock instance that serializes queue runs
+const BROADCAST_CRON = "* * * * *";                   // Cron Trigger that sends the next batch (see wrangler.toml)
+const BROADCAST_BATCH_SIZE = 40;                      // Sends per run, below the 50 subrequests a free-plan invocation may make
+const BROADCAST_BATCH_TIME_MS = 20 * 1000;            // No send starts after this, leaving USER_LOCK_TTL_MS - BROADCAST_BATCH_TIME_MS for the last one
+const BROADCAST_SEND_INTERVAL_MS = 50;                // ~20 messages/second, under Telegram's ~30/second bulk limit
+const BROADCAST_SAVE_INTERVAL_MS = 1000;              // Progress is saved this often during a run (KV takes one write per key per second)
+const BROADCAST_EXPIRING_DAYS = [3, 7];               // Preset "expiring in N days" segment buttons
 
 // Payment State Constants
 const STATE = {
+    WAITING_FOR_PLAN: "WAITING_FOR_PLAN",
     WAITING_FOR_PHONE: "WAITING_FOR_PHONE",
+    WAITING_FOR_PROOF: "WAITING_FOR_PROOF",
     PENDING_CONFIRMATION: "PENDING_CONFIRMATION",
     PENDING_ADMIN_REVIEW: "PENDING_ADMIN_REVIEW",
     APPROVED: "APPROVED",
     REJECTED: "REJECTED",
 }
 
+// Preset rejection reasons offered on the "❌ Reject" button (key → catalog text sent to the user)
+const REJECTION_REASONS: Record<string, MessageKey> = {
+    amount: "REJECTION_AMOUNT",
+    not_found: "REJECTION_NOT_FOUND",
+    phone: "REJECTION_PHONE",
+}
+const MAX_REJECTION_REASON_LENGTH = 300;
+
+// Broadcast recipient segments (key → button label). "expiring" also takes a number of days.
+const BROADCAST_SEGMENTS: Record<string, string> = {
+    all: "👥 All registered",
+    approved: "✅ Approved",
+    expiring: "⏳ Expiring",
+    rejected: "❌ Rejected",
+    pending: "🕒 Pending",
+}
+
+// Admin Role Constants
+const ADMIN_ROLE = {
+    OWNER: "owner",       // Everything: admins, configuration, plans, channels, revocations
+    REVIEWER: "reviewer", // Approve/reject pending payments
+    SUPPORT: "support",   // View lists and send invites
+}
+
+// Commands (callback data and pending text commands) each role may use. Owners may use all.
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+    [ADMIN_ROLE.REVIEWER]: ['/admin_menu', '/cancel', '/whoisadmin', '/review_payments', '/approve', '/reject', '/reject_reason', '/reject_custom', '/reject_with_reason', '/view_proof'],
+    [ADMIN_ROLE.SUPPORT]: ['/admin_menu', '/cancel', '/whoisadmin', '/list_approved', '/list_users', '/invite_user_flow', '/invite_user'],
+}
+
+// Audit Log Action Constants
+const AUDIT_ACTION = {
+    APPROVE: "APPROVE",
+    APPROVE_RENEWAL: "APPROVE_RENEWAL",
+    REJECT: "REJECT",
+    REVOKE: "REVOKE",
+    INVITE_USER: "INVITE_USER",
+    ADD_ADMIN: "ADD_ADMIN",
+    CHANGE_ADMIN_ROLE: "CHANGE_ADMIN_ROLE",
+    REMOVE_ADMIN: "REMOVE_ADMIN",
+    SET_CHANNEL_ID: "SET_CHANNEL_ID",
+    SET_PAYMENT_AMOUNT: "SET_PAYMENT_AMOUNT",
+    SET_PAYMENT_PHONE: "SET_PAYMENT_PHONE",
+    ADD_CHANNEL: "ADD_CHANNEL",
+    REMOVE_CHANNEL: "REMOVE_CHANNEL",
+    ADD_PLAN: "ADD_PLAN",
+    REMOVE_PLAN: "REMOVE_PLAN",
+    SET_TEXT: "SET_TEXT",     // Owner override of a user-facing catalog text
+    RESET_TEXT: "RESET_TEXT",
+    BROADCAST: "BROADCAST",
+    CANCEL_BROADCAST: "CANCEL_BROADCAST",
+    LINK_SHARING: "LINK_SHARING", // Someone joined a channel with another user's link, or with none of ours
+    REMOVE_MEMBER: "REMOVE_MEMBER",
+    SET_LINK_GUARD: "SET_LINK_GUARD",
+    SET_ACCESS_MODE: "SET_ACCESS_MODE",
+    CHECKOUT_MISMATCH: "CHECKOUT_MISMATCH", // A verified online payment was in the wrong currency or too low; sent to review
+    DENIED: "DENIED", // A non-admin pressed an admin button
+    CLAIM_ADMIN: "CLAIM_ADMIN", // First admin claimed with ADMIN_SETUP_CODE
+    CLAIM_ADMIN_DENIED: "CLAIM_ADMIN_DENIED",
+}
+const SYSTEM_ACTOR = "system"; // Actor for actions taken by the Cron Trigger
+
+// How approved users get into the channel
+const ACCESS_MODE = {
+    INVITE_LINK: "INVITE_LINK",   // A single-use invite link per approval
+    JOIN_REQUEST: "JOIN_REQUEST", // One shared join-request link; the bot approves requests from subscribers only
+}
+
+// What happens to a member who joins with someone else's invite link, or with no link from the bot.
+// Either way the admins are notified; subscribers in good standing are never removed.
+const LINK_GUARD_MODE = {
+    FLAG: "FLAG",     // Flag the user and let admins decide
+    REMOVE: "REMOVE", // Also remove them from the channel right away
+}
+
+// Subscriber Record Status Constants
+const SUBSCRIPTION_STATUS = {
+    ACTIVE: "ACTIVE",
+    REVOKED: "REVOKED",
+}
+
+// Telegram API Error Kinds (see classifyTelegramError)
+const TELEGRAM_ERROR = {
+    BLOCKED: "BLOCKED",                     // The user blocked the bot or deleted their account
+    CHAT_NOT_FOUND: "CHAT_NOT_FOUND",       // Wrong chat/user ID, or the user never started the bot
+    NOT_ENOUGH_RIGHTS: "NOT_ENOUGH_RIGHTS", // The bot isn't an admin of the chat, or lacks the needed right
+    RATE_LIMITED: "RATE_LIMITED",           // 429 with a retry_after too long to wait out
+    SERVER_ERROR: "SERVER_ERROR",           // 5xx or network failure after all retries
+    BAD_REQUEST: "BAD_REQUEST",             // Anything else (e.g. broken Markdown)
+} as const;
+type TelegramErrorKind = typeof TELEGRAM_ERROR[keyof typeof TELEGRAM_ERROR];
+
 //  User-Facing Texts
-const PROMPT_CONFIRM = `✅ Step 3: After steps 1 & 2, send /confirm_payment.`;
-const PHONE_RECEIVED = "✅ Phone number received. Now press the button below to confirm.";
-const INVALID_PHONE = "❌ Invalid phone number format. Please send numbers only.";
-const ALREADY_APPROVED = "✅ You are already a member. Contact admin if you don't have the link.";
-const PENDING_ADMIN_INITIAL_MESSAGE = `✨ Your payment is pending admin review. You will receive a single-use invite link soon.`;
-const PENDING_ADMIN = `Phone number confirmed`;
-const PAYMENT_APPROVED = "✅ Payment approved. Here is your single-use invite link.";
-const PAYMENT_REJECTED = "❌ Your payment was not approved. Please contact an admin for the reason.";
-const ACCESS_REVOKED = "⛔ Your access to the private channel has been revoked. To re-subscribe, use /start.";
-const USER_STATUS_MESSAGE = "ℹ️ *Your Subscription Status:*";
-const REGULAR_HELP = "👋 *GoldBot* registration assistant.\n\n*Commands:*\n• `/start` - Start registration\n• `/status` - Check your subscription status\n• `/help` - Show this message";
+// Every message sent to a regular user comes from this catalog (see getUserTexts). Texts use
+// {placeholders}; keys missing from a locale fall back to English. Owners can override single
+// strings per locale from the admin menu (stored under TEXT_OVERRIDES_KEY).
+const LOCALES = ['en', 'am', 'om'] as const;
+type Locale = typeof LOCALES[number];
+const DEFAULT_LOCALE: Locale = 'en';
+const LOCALE_NAMES: Record<Locale, string> = {
+    en: "🇬🇧 English",
+    am: "🇪🇹 አማርኛ",
+    om: "🇪🇹 Afaan Oromoo",
+};
+const TEXT_OVERRIDES_KEY = "text_overrides";
+const TEMPLATE_DRAFT_PREFIX = "template_draft:"; // Edited text awaiting "Save" after the preview (template_draft:<admin>)
+const TEMPLATE_DRAFT_TTL_SECONDS = 60 * 60;
+const MAX_TEMPLATE_LENGTH = 3500;
+
+const MESSAGES_EN = {
+    WELCOME_HELLO: "Hello, *{name}*! \n\n",
+    WELCOME_NEW_USER: "Welcome to GoldBot! 🎉\n\n",
+    WELCOME_LEFT_CHANNEL: "It looks like you're no longer in the private channel. Let's get you registered again.\n\n",
+    WELCOME_RESTART: "Starting a new registration. Please follow the steps below.\n\n",
+    START_WAITING_FOR_PROOF: "You have already provided your phone number. Please send your proof of payment: a receipt screenshot, the receipt file, or the confirmation SMS.\n\n",
+    START_PENDING_CONFIRMATION: "You have already provided your phone number and proof of payment. Please confirm your payment using the button below.\n\n",
+    START_PENDING_REVIEW: "Your payment is currently pending admin review. Please wait for approval.\n\n",
+    OTHER_CHANNELS_AVAILABLE: "\n\n📡 *Other channels are available:*\n\n",
+    CRITICAL_ERROR: "🆘 A critical error occurred. Please try again later.",
+    PROMPT_CONFIRM: "✅ Step 3: After steps 1 & 2, send /confirm\\_payment.",
+    PHONE_RECEIVED: "✅ Phone number received.\n\n🧾 Step 3: *Send your proof of payment* — a screenshot of the Telebirr receipt, the receipt file, or paste the confirmation SMS.",
+    PROOF_RECEIVED: "✅ Proof of payment received. Now press the button below to confirm.",
+    PROOF_RECEIVED_PRESS_BUTTON: "⚠️ Proof of payment received. Please press the button below.",
+    INVALID_PROOF: "❌ Please send a receipt screenshot, a receipt file, or paste the full confirmation SMS.",
+    INVALID_PHONE: "❌ Invalid Ethiopian phone number. Use format: +2519XXXXXXXX or 09XXXXXXXX",
+    ALREADY_APPROVED: "✅ You are already a member. Contact admin if you don't have the link.",
+    RENEW_HINT: "🔄 Want to pay early? Use /renew to extend your subscription.",
+    NO_ACTIVE_SUBSCRIPTION: "🚫 You don't have an active subscription to renew. Use /start to subscribe.",
+    PENDING_ADMIN_INITIAL_MESSAGE: "✨ Your payment is pending admin review. You will receive a single-use invite link soon.",
+    PENDING_RENEWAL_INITIAL_MESSAGE: "✨ Your renewal payment is pending admin review. Your current access stays active in the meantime.",
+    PENDING_ADMIN: "Phone number confirmed",
+    ALREADY_SENT: "⚠️ You have already sent for confirmation. Please wait.",
+    CONFIRM_NEEDS_START: "🚫 Please /start first to use /confirm\\_payment.",
+    CONFIRM_NEEDS_PROOF: "🚫 To use /confirm\\_payment, please send your proof of payment first.",
+    CONFIRM_NEEDS_PHONE: "🚫 To use /confirm\\_payment, please send your payment phone number first.",
+    CHOOSE_PLAN_PROMPT: "⚠️ Please choose a plan using the buttons below.\n\n",
+    CHOOSE_PLAN_NEEDS_START: "🚫 Please /start first to choose a plan.",
+    PLAN_UNAVAILABLE: "⚠️ That plan is no longer available. Please choose again.\n\n",
+    PLAN_CHOICE_TITLE: "🏷️ *Choose your subscription plan:*",
+    PLAN_LINE: "*Plan:* {plan}\n",
+    PAYMENT_REMINDER: "ℹ️ *Payment Reminder*\n\n{plan_line}Please pay *{amount} ETB* to `{phone}` via Telebirr.\n\nThen, send the *phone number* you used for payment here.",
+    PAYMENT_STEPS: "\n🎉 *Welcome to the Premium Channel!*\n{plan_line}\nTo get access, please follow these steps:\n\n1️⃣ Make a payment of *{amount} ETB* via Telebirr to:\n`{phone}` (Tap to copy)\n\n2️⃣ After payment, simply *send the phone number* you used to pay right here in this chat.\n\n_Example:_ `0911223344` or `+251911223344`\n\n3️⃣ Then send your *proof of payment*: a screenshot of the receipt, the receipt file, or the confirmation SMS.\n\nWe will verify your payment and send you the invite link instantly! 🚀\n",
+    SMS_TRANSACTION_USED: "❌ Transaction `{transaction_id}` has already paid for an approved subscription. Please send the receipt for this payment.",
+    PAYMENT_APPROVED: "✅ Payment approved. Here is your single-use invite link.{channel_line}\n\n[Click to Join]({invite_link})",
+    PAYMENT_APPROVED_JOIN_REQUEST: "✅ Payment approved.{channel_line}\n\nOpen the link and tap *Request to Join*: your request is approved automatically.\n\n[Join the Channel]({invite_link})",
+    RENEWAL_APPROVED: "✅ Renewal approved. Your subscription has been extended — no need to rejoin.\n\n*New expiry date:* {date}",
+    CHANNEL_LINE: "*Channel:* {channel}",
+    MANUAL_INVITE: "🎉 Your private channel invitation link is here: [Click to Join]({invite_link})\n\n*This link is single-use and will expire after you click it.*",
+    PAYMENT_REJECTED: "❌ Your payment was not approved. Please contact an admin for the reason.",
+    PAYMENT_REJECTED_WITH_REASON: "❌ Your payment was not approved.",
+    REASON_LINE: "*Reason:* {reason}",
+    RESUBMIT_HINT: "Please fix this and press *Resubmit* to send your payment details again.",
+    REJECTION_AMOUNT: "The amount paid doesn't match the subscription price.",
+    REJECTION_NOT_FOUND: "We couldn't find your payment.",
+    REJECTION_PHONE: "The phone number doesn't match the payment.",
+    RESUBMIT_NOTHING: "🚫 There is no rejected payment to resubmit. Use /start to begin.",
+    RESUBMIT_TITLE: "🔁 *Resubmitting your payment*\n\n",
+    ACCESS_REVOKED: "⛔ Your access to the private channel has been revoked. To re-subscribe, use /start.",
+    JOIN_REQUEST_DECLINED: "🚫 Your request to join the private channel was declined because you don't have an active subscription.{channel_line}\n\nSend /start to subscribe, then request to join again.",
+    RENEW_TITLE: "🔄 *Renew Your Subscription*\n\n",
+    RENEW_CURRENT_ACCESS: "Your current access{channel} runs until *{date}*.\n",
+    RENEW_PLAN_NOTE: "Once approved, the plan you choose is added on top of it.\n\n",
+    RENEW_DAYS_NOTE: "Once approved, another {days} days are added.\n\n",
+    EXPIRY_REMINDER: "⏰ *Your subscription{channel} ends in {days_left} day(s)* ({date}).\n\n",
+    EXPIRY_REMINDER_ACTION: "\n\nPress *Renew* below to keep your access.",
+    CHECKOUT_UNAVAILABLE: "🚫 Online payment is not available. Please follow the manual payment steps.",
+    CHECKOUT_NEEDS_START: "🚫 Please /start first to pay online.",
+    CHECKOUT_NO_AMOUNT: "❌ The payment amount is not set yet. Please contact an admin.",
+    CHECKOUT_FAILED: "❌ Could not start the online payment. Please try again or use the manual payment steps.",
+    CHECKOUT_READY: "💳 *Online Payment*\n\nTap the button below to pay *{amount} ETB*. Your access is granted automatically once the payment goes through.",
+    STATUS_TITLE: "ℹ️ *Your Subscription Status:*",
+    STATUS_LINE: "*Status:* `{status}`\n",
+    PHONE_LINE: "*Phone:* `{phone}`\n",
+    EXPIRES_LINE: "*Expires:* {date}\n",
+    DAYS_REMAINING_LINE: "*Days Remaining:* {days_left}\n",
+    RENEWAL_PENDING_LINE: "*Renewal:* Pending admin review\n",
+    STATUS_NOT_REGISTERED: "❌ Not registered. Use `/start` to begin.",
+    STATUS_CHOOSE_PLAN: "🏷️ Please choose a subscription plan. Use /start to see the options.",
+    STATUS_SEND_PROOF: "🧾 Step 3: *Now, please send your proof of payment* (receipt screenshot, receipt file or the confirmation SMS).",
+    STATUS_SEND_PHONE: "📲 Step 2: *Now, please send the phone number you paid from.* Supported formats: `+2519xxxxxxxx` or `09xxxxxxxx`.",
+    BUTTON_CONFIRM_PAYMENT: "✅ Confirm Payment",
+    BUTTON_RESUBMIT: "🔁 Resubmit",
+    BUTTON_RENEW: "🔄 Renew",
+    BUTTON_PAY_ONLINE: "💳 Pay online (Chapa)",
+    BUTTON_PAY_AMOUNT: "💳 Pay {amount} ETB",
+    LANGUAGE_PROMPT: "🌐 *Choose your language:*",
+    LANGUAGE_SET: "✅ Language set to *English*.",
+    NOT_AN_ADMIN: "🚫 You are no longer an admin. This action was not performed.",
+    UNKNOWN_COMMAND: "Command not recognized. Type `/help` for a list of available commands.",
+    REGULAR_HELP: "👋 *GoldBot* registration assistant.\n\n*Commands:*\n• `/start` - Start registration\n• `/status` - Check your subscription status\n• `/renew` - Extend your subscription early\n• `/language` - Change the language\n• `/help` - Show this message",
+};
+type MessageKey = keyof typeof MESSAGES_EN;
+
+const MESSAGES: Record<Locale, Partial<Record<MessageKey, string>>> = {
+    en: MESSAGES_EN,
+    am: {
+        WELCOME_HELLO: "ሰላም፣ *{name}*! \n\n",
+        WELCOME_NEW_USER: "ወደ GoldBot እንኳን በደህና መጡ! 🎉\n\n",
+        WELCOME_LEFT_CHANNEL: "ከግል ቻናሉ የወጡ ይመስላል። እንደገና እንመዝግብዎት።\n\n",
+        WELCOME_RESTART: "አዲስ ምዝገባ በመጀመር ላይ። እባክዎ ከታች ያሉትን ደረጃዎች ይከተሉ።\n\n",
+        START_WAITING_FOR_PROOF: "የስልክ ቁጥርዎን አስቀድመው ልከዋል። እባክዎ የክፍያ ማረጋገጫዎን ይላኩ፦ የደረሰኝ ስክሪንሾት፣ የደረሰኝ ፋይል ወይም የማረጋገጫ SMS።\n\n",
+        START_PENDING_CONFIRMATION: "የስልክ ቁጥርዎን እና የክፍያ ማረጋገጫዎን አስቀድመው ልከዋል። እባክዎ ከታች ባለው ቁልፍ ክፍያዎን ያረጋግጡ።\n\n",
+        START_PENDING_REVIEW: "ክፍያዎ በአስተዳዳሪ እየታየ ነው። እባክዎ ማጽደቁን ይጠብቁ።\n\n",
+        OTHER_CHANNELS_AVAILABLE: "\n\n📡 *ሌሎች ቻናሎችም አሉ፦*\n\n",
+        CRITICAL_ERROR: "🆘 ከባድ ስህተት ተፈጥሯል። እባክዎ ቆይተው እንደገና ይሞክሩ።",
+        PROMPT_CONFIRM: "✅ ደረጃ 3፦ ደረጃ 1 እና 2ን ከጨረሱ በኋላ /confirm\\_payment ይላኩ።",
+        PHONE_RECEIVED: "✅ ስልክ ቁጥሩ ደርሶናል።\n\n🧾 ደረጃ 3፦ *የክፍያ ማረጋገጫዎን ይላኩ* — የቴሌብር ደረሰኝ ስክሪንሾት፣ የደረሰኝ ፋይል ወይም የማረጋገጫ SMS ይለጥፉ።",
+        PROOF_RECEIVED: "✅ የክፍያ ማረጋገጫው ደርሶናል። አሁን ለማረጋገጥ ከታች ያለውን ቁልፍ ይጫኑ።",
+        PROOF_RECEIVED_PRESS_BUTTON: "⚠️ የክፍያ ማረጋገጫው ደርሶናል። እባክዎ ከታች ያለውን ቁልፍ ይጫኑ።",
+        INVALID_PROOF: "❌ እባክዎ የደረሰኝ ስክሪንሾት፣ የደረሰኝ ፋይል ወይም ሙሉውን የማረጋገጫ SMS ይላኩ።",
+        INVALID_PHONE: "❌ ትክክለኛ ያልሆነ የኢትዮጵያ ስልክ ቁጥር። ይህን ቅርጸት ይጠቀሙ፦ +2519XXXXXXXX ወይም 09XXXXXXXX",
+        ALREADY_APPROVED: "✅ አባል ነዎት። ሊንኩ ከሌለዎት አስተዳዳሪን ያነጋግሩ።",
+        RENEW_HINT: "🔄 ቀድመው መክፈል ይፈልጋሉ? ምዝገባዎን ለማራዘም /renew ይጠቀሙ።",
+        NO_ACTIVE_SUBSCRIPTION: "🚫 የሚታደስ ንቁ ምዝገባ የለዎትም። ለመመዝገብ /start ይጠቀሙ።",
+        PENDING_ADMIN_INITIAL_MESSAGE: "✨ ክፍያዎ በአስተዳዳሪ እየታየ ነው። በቅርቡ የአንድ ጊዜ መግቢያ ሊንክ ይደርስዎታል።",
+        PENDING_RENEWAL_INITIAL_MESSAGE: "✨ የእድሳት ክፍያዎ በአስተዳዳሪ እየታየ ነው። እስከዚያው ያለዎት መዳረሻ እንደቀጠለ ነው።",
+        PENDING_ADMIN: "ስልክ ቁጥሩ ተረጋግጧል",
+        ALREADY_SENT: "⚠️ ለማረጋገጫ አስቀድመው ልከዋል። እባክዎ ይጠብቁ።",
+        CONFIRM_NEEDS_START: "🚫 /confirm\\_payment ለመጠቀም እባክዎ መጀመሪያ /start ይላኩ።",
+        CONFIRM_NEEDS_PROOF: "🚫 /confirm\\_payment ለመጠቀም እባክዎ መጀመሪያ የክፍያ ማረጋገጫዎን ይላኩ።",
+        CONFIRM_NEEDS_PHONE: "🚫 /confirm\\_payment ለመጠቀም እባክዎ መጀመሪያ የከፈሉበትን ስልክ ቁጥር ይላኩ።",
+        CHOOSE_PLAN_PROMPT: "⚠️ እባክዎ ከታች ያሉትን ቁልፎች በመጠቀም ጥቅል ይምረጡ።\n\n",
+        CHOOSE_PLAN_NEEDS_START: "🚫 ጥቅል ለመምረጥ እባክዎ መጀመሪያ /start ይላኩ።",
+        PLAN_UNAVAILABLE: "⚠️ ያ ጥቅል ከአሁን በኋላ አይገኝም። እባክዎ እንደገና ይምረጡ።\n\n",
+        PLAN_CHOICE_TITLE: "🏷️ *የምዝገባ ጥቅልዎን ይምረጡ፦*",
+        PLAN_LINE: "*ጥቅል፦* {plan}\n",
+        PAYMENT_REMINDER: "ℹ️ *የክፍያ ማስታወሻ*\n\n{plan_line}እባክዎ *{amount} ብር* በቴሌብር ወደ `{phone}` ይክፈሉ።\n\nከዚያም የከፈሉበትን *ስልክ ቁጥር* እዚህ ይላኩ።",
+        PAYMENT_STEPS: "\n🎉 *ወደ ፕሪሚየም ቻናሉ እንኳን በደህና መጡ!*\n{plan_line}\nመዳረሻ ለማግኘት እባክዎ እነዚህን ደረጃዎች ይከተሉ፦\n\n1️⃣ *{amount} ብር* በቴሌብር ወደዚህ ቁጥር ይክፈሉ፦\n`{phone}` (ለመቅዳት ይንኩ)\n\n2️⃣ ከከፈሉ በኋላ የከፈሉበትን *ስልክ ቁጥር* እዚሁ ቻት ላይ ይላኩ።\n\n_ምሳሌ፦_ `0911223344` ወይም `+251911223344`\n\n3️⃣ ከዚያም *የክፍያ ማረጋገጫዎን* ይላኩ፦ የደረሰኝ ስክሪንሾት፣ የደረሰኝ ፋይል ወይም የማረጋገጫ SMS።\n\nክፍያዎን አረጋግጠን የመግቢያ ሊንኩን ወዲያውኑ እንልክልዎታለን! 🚀\n",
+        SMS_TRANSACTION_USED: "❌ የግብይት ቁጥር `{transaction_id}` ቀደም ሲል ለጸደቀ ምዝገባ ጥቅም ላይ ውሏል። እባክዎ የዚህን ክፍያ ደረሰኝ ይላኩ።",
+        PAYMENT_APPROVED: "✅ ክፍያዎ ጸድቋል። የአንድ ጊዜ መግቢያ ሊንክዎ ይኸውና።{channel_line}\n\n[ለመቀላቀል ይጫኑ]({invite_link})",
+        PAYMENT_APPROVED_JOIN_REQUEST: "✅ ክፍያዎ ጸድቋል።{channel_line}\n\nሊንኩን ከፍተው *Request to Join* የሚለውን ይጫኑ፤ ጥያቄዎ በራስ-ሰር ይጸድቃል።\n\n[ቻናሉን ይቀላቀሉ]({invite_link})",
+        RENEWAL_APPROVED: "✅ እድሳትዎ ጸድቋል። ምዝገባዎ ተራዝሟል — እንደገና መቀላቀል አያስፈልግዎትም።\n\n*አዲሱ የማብቂያ ቀን፦* {date}",
+        CHANNEL_LINE: "*ቻናል፦* {channel}",
+        MANUAL_INVITE: "🎉 የግል ቻናሉ መጋበዣ ሊንክዎ ይኸውና፦ [ለመቀላቀል ይጫኑ]({invite_link})\n\n*ይህ ሊንክ አንድ ጊዜ ብቻ የሚያገለግል ሲሆን ከተጫኑት በኋላ ያበቃል።*",
+        PAYMENT_REJECTED: "❌ ክፍያዎ አልጸደቀም። ምክንያቱን ለማወቅ አስተዳዳሪን ያነጋግሩ።",
+        PAYMENT_REJECTED_WITH_REASON: "❌ ክፍያዎ አልጸደቀም።",
+        REASON_LINE: "*ምክንያት፦* {reason}",
+        RESUBMIT_HINT: "እባክዎ ይህንን አስተካክለው የክፍያ መረጃዎን እንደገና ለመላክ *እንደገና ላክ* የሚለውን ይጫኑ።",
+        REJECTION_AMOUNT: "የተከፈለው መጠን ከምዝገባው ዋጋ ጋር አይመሳሰልም።",
+        REJECTION_NOT_FOUND: "ክፍያዎን ማግኘት አልቻልንም።",
+        REJECTION_PHONE: "ስልክ ቁጥሩ ከክፍያው ጋር አይመሳሰልም።",
+        RESUBMIT_NOTHING: "🚫 እንደገና የሚላክ ውድቅ የተደረገ ክፍያ የለም። ለመጀመር /start ይጠቀሙ።",
+        RESUBMIT_TITLE: "🔁 *ክፍያዎን እንደገና በመላክ ላይ*\n\n",
+        ACCESS_REVOKED: "⛔ የግል ቻናሉ መዳረሻዎ ተሰርዟል። እንደገና ለመመዝገብ /start ይጠቀሙ።",
+        JOIN_REQUEST_DECLINED: "🚫 ንቁ የደንበኝነት ምዝገባ ስለሌለዎት የግል ቻናሉን ለመቀላቀል ያቀረቡት ጥያቄ አልተቀበለም።{channel_line}\n\nለመመዝገብ /start ይላኩ፣ ከዚያም እንደገና ለመቀላቀል ይጠይቁ።",
+        RENEW_TITLE: "🔄 *ምዝገባዎን ያድሱ*\n\n",
+        RENEW_CURRENT_ACCESS: "ያለዎት መዳረሻ{channel} እስከ *{date}* ድረስ ይቆያል።\n",
+        RENEW_PLAN_NOTE: "ሲጸድቅ የመረጡት ጥቅል በላዩ ላይ ይጨመራል።\n\n",
+        RENEW_DAYS_NOTE: "ሲጸድቅ ተጨማሪ {days} ቀናት ይጨመራሉ።\n\n",
+        EXPIRY_REMINDER: "⏰ *ምዝገባዎ{channel} በ{days_left} ቀን ውስጥ ያበቃል* ({date})።\n\n",
+        EXPIRY_REMINDER_ACTION: "\n\nመዳረሻዎን ለማስቀጠል ከታች *አድስ* የሚለውን ይጫኑ።",
+        CHECKOUT_UNAVAILABLE: "🚫 የኦንላይን ክፍያ አይገኝም። እባክዎ የእጅ ክፍያ ደረጃዎችን ይከተሉ።",
+        CHECKOUT_NEEDS_START: "🚫 በኦንላይን ለመክፈል እባክዎ መጀመሪያ /start ይላኩ።",
+        CHECKOUT_NO_AMOUNT: "❌ የክፍያ መጠኑ ገና አልተወሰነም። እባክዎ አስተዳዳሪን ያነጋግሩ።",
+        CHECKOUT_FAILED: "❌ የኦንላይን ክፍያውን መጀመር አልተቻለም። እባክዎ እንደገና ይሞክሩ ወይም የእጅ ክፍያ ደረጃዎችን ይጠቀሙ።",
+        CHECKOUT_READY: "💳 *የኦንላይን ክፍያ*\n\n*{amount} ብር* ለመክፈል ከታች ያለውን ቁልፍ ይንኩ። ክፍያው ሲሳካ መዳረሻዎ በራስ-ሰር ይሰጣል።",
+        STATUS_TITLE: "ℹ️ *የምዝገባዎ ሁኔታ፦*",
+        STATUS_LINE: "*ሁኔታ፦* `{status}`\n",
+        PHONE_LINE: "*ስልክ፦* `{phone}`\n",
+        EXPIRES_LINE: "*የሚያበቃበት ቀን፦* {date}\n",
+        DAYS_REMAINING_LINE: "*የቀሩ ቀናት፦* {days_left}\n",
+        RENEWAL_PENDING_LINE: "*እድሳት፦* በአስተዳዳሪ እየታየ ነው\n",
+        STATUS_NOT_REGISTERED: "❌ አልተመዘገቡም። ለመጀመር `/start` ይጠቀሙ።",
+        STATUS_CHOOSE_PLAN: "🏷️ እባክዎ የምዝገባ ጥቅል ይምረጡ። አማራጮቹን ለማየት /start ይጠቀሙ።",
+        STATUS_SEND_PROOF: "🧾 ደረጃ 3፦ *አሁን የክፍያ ማረጋገጫዎን ይላኩ* (የደረሰኝ ስክሪንሾት፣ የደረሰኝ ፋይል ወይም የማረጋገጫ SMS)።",
+        STATUS_SEND_PHONE: "📲 ደረጃ 2፦ *አሁን የከፈሉበትን ስልክ ቁጥር ይላኩ።* የሚደገፉ ቅርጸቶች፦ `+2519xxxxxxxx` ወይም `09xxxxxxxx`።",
+        BUTTON_CONFIRM_PAYMENT: "✅ ክፍያውን አረጋግጥ",
+        BUTTON_RESUBMIT: "🔁 እንደገና ላክ",
+        BUTTON_RENEW: "🔄 አድስ",
+        BUTTON_PAY_ONLINE: "💳 በኦንላይን ይክፈሉ (Chapa)",
+        BUTTON_PAY_AMOUNT: "💳 {amount} ብር ይክፈሉ",
+        LANGUAGE_PROMPT: "🌐 *ቋንቋ ይምረጡ፦*",
+        LANGUAGE_SET: "✅ ቋንቋው ወደ *አማርኛ* ተቀይሯል።",
+        NOT_AN_ADMIN: "🚫 ከአሁን በኋላ አስተዳዳሪ አይደሉም። ይህ ተግባር አልተፈጸመም።",
+        UNKNOWN_COMMAND: "ትዕዛዙ አልታወቀም። የሚገኙ ትዕዛዞችን ለማየት `/help` ይላኩ።",
+        REGULAR_HELP: "👋 *GoldBot* የምዝገባ ረዳት።\n\n*ትዕዛዞች፦*\n• `/start` - ምዝገባ ይጀምሩ\n• `/status` - የምዝገባዎን ሁኔታ ይመልከቱ\n• `/renew` - ምዝገባዎን ቀድመው ያራዝሙ\n• `/language` - ቋንቋ ይቀይሩ\n• `/help` - ይህንን መልእክት ያሳዩ",
+    },
+    om: {
+        WELCOME_HELLO: "Akkam, *{name}*! \n\n",
+        WELCOME_NEW_USER: "Baga gara GoldBot dhuftan! 🎉\n\n",
+        WELCOME_LEFT_CHANNEL: "Chaanaalii dhuunfaa keessaa baatan fakkaata. Ammas isin haa galmeessinu.\n\n",
+        WELCOME_RESTART: "Galmee haaraa jalqabaa jirra. Maaloo tarkaanfiiwwan armaan gadii hordofaa.\n\n",
+        START_WAITING_FOR_PROOF: "Lakkoofsa bilbilaa keessan duraan ergitaniirtu. Maaloo ragaa kaffaltii keessanii ergaa: suuraa nagahee, faayilii nagahee, ykn SMS mirkaneessaa.\n\n",
+        START_PENDING_CONFIRMATION: "Lakkoofsa bilbilaa fi ragaa kaffaltii keessanii duraan ergitaniirtu. Maaloo qabduu armaan gadiitiin kaffaltii keessan mirkaneessaa.\n\n",
+        START_PENDING_REVIEW: "Kaffaltiin keessan amma bulchaan ilaalamaa jira. Maaloo mirkaneeffama eegaa.\n\n",
+        OTHER_CHANNELS_AVAILABLE: "\n\n📡 *Chaanaaleen biroos ni jiru:*\n\n",
+        CRITICAL_ERROR: "🆘 Dogoggorri cimaan uumameera. Maaloo booda irra deebi'aa yaalaa.",
+        PROMPT_CONFIRM: "✅ Tarkaanfii 3: Tarkaanfii 1 fi 2 booda /confirm\\_payment ergaa.",
+        PHONE_RECEIVED: "✅ Lakkoofsi bilbilaa nu qaqqabeera.\n\n🧾 Tarkaanfii 3: *Ragaa kaffaltii keessanii ergaa* — suuraa nagahee Telebirr, faayilii nagahee, ykn SMS mirkaneessaa maxxansaa.",
+        PROOF_RECEIVED: "✅ Ragaan kaffaltii nu qaqqabeera. Amma mirkaneessuuf qabduu armaan gadii tuqaa.",
+        PROOF_RECEIVED_PRESS_BUTTON: "⚠️ Ragaan kaffaltii nu qaqqabeera. Maaloo qabduu armaan gadii tuqaa.",
+        INVALID_PROOF: "❌ Maaloo suuraa nagahee, faayilii nagahee, ykn SMS mirkaneessaa guutuu ergaa.",
+        INVALID_PHONE: "❌ Lakkoofsi bilbilaa Itoophiyaa sirrii miti. Akkaataa kana fayyadamaa: +2519XXXXXXXX ykn 09XXXXXXXX",
+        ALREADY_APPROVED: "✅ Isin duraan miseensa taataniirtu. Liinkii yoo hin qabaattan bulchaa qunnamaa.",
+        RENEW_HINT: "🔄 Dursitanii kaffaluu barbaadduu? Galmee keessan dheereffachuuf /renew fayyadamaa.",
+        NO_ACTIVE_SUBSCRIPTION: "🚫 Galmee hojii irra jiru kan haaromfamu hin qabdan. Galmaa'uuf /start fayyadamaa.",
+        PENDING_ADMIN_INITIAL_MESSAGE: "✨ Kaffaltiin keessan bulchaan ilaalamaa jira. Liinkiin affeerraa yeroo tokkoo dhiyootti isin qaqqaba.",
+        PENDING_RENEWAL_INITIAL_MESSAGE: "✨ Kaffaltiin haaromsaa keessan bulchaan ilaalamaa jira. Hanga sanatti seensi keessan akkuma jirutti itti fufa.",
+        PENDING_ADMIN: "Lakkoofsi bilbilaa mirkanaa'eera",
+        ALREADY_SENT: "⚠️ Mirkaneessuuf duraan ergitaniirtu. Maaloo eegaa.",
+        CONFIRM_NEEDS_START: "🚫 /confirm\\_payment fayyadamuuf maaloo dura /start ergaa.",
+        CONFIRM_NEEDS_PROOF: "🚫 /confirm\\_payment fayyadamuuf maaloo dura ragaa kaffaltii ergaa.",
+        CONFIRM_NEEDS_PHONE: "🚫 /confirm\\_payment fayyadamuuf maaloo dura lakkoofsa bilbilaa ittiin kaffaltan ergaa.",
+        CHOOSE_PLAN_PROMPT: "⚠️ Maaloo qabduuwwan armaan gadiitiin karoora filadhaa.\n\n",
+        CHOOSE_PLAN_NEEDS_START: "🚫 Karoora filachuuf maaloo dura /start ergaa.",
+        PLAN_UNAVAILABLE: "⚠️ Karoorri sun amma hin jiru. Maaloo irra deebi'aa filadhaa.\n\n",
+        PLAN_CHOICE_TITLE: "🏷️ *Karoora galmee keessanii filadhaa:*",
+        PLAN_LINE: "*Karoora:* {plan}\n",
+        PAYMENT_REMINDER: "ℹ️ *Yaadachiisa Kaffaltii*\n\n{plan_line}Maaloo *{amount} ETB* Telebirr'n gara `{phone}` kaffalaa.\n\nSana booda *lakkoofsa bilbilaa* ittiin kaffaltan asitti ergaa.",
+        PAYMENT_STEPS: "\n🎉 *Baga gara Chaanaalii Premium dhuftan!*\n{plan_line}\nSeensa argachuuf maaloo tarkaanfiiwwan kana hordofaa:\n\n1️⃣ *{amount} ETB* Telebirr'n gara lakkoofsa kanaa kaffalaa:\n`{phone}` (garagalchuuf tuqaa)\n\n2️⃣ Erga kaffaltanii booda *lakkoofsa bilbilaa* ittiin kaffaltan chaatii kana keessatti ergaa.\n\n_Fakkeenya:_ `0911223344` ykn `+251911223344`\n\n3️⃣ Sana booda *ragaa kaffaltii* ergaa: suuraa nagahee, faayilii nagahee, ykn SMS mirkaneessaa.\n\nKaffaltii keessan mirkaneessinee liinkii affeerraa battalumatti isiniif ergina! 🚀\n",
+        SMS_TRANSACTION_USED: "❌ Lakkoofsi daldalaa `{transaction_id}` duraan galmee mirkanaa'eef fayyadamameera. Maaloo nagahee kaffaltii kanaa ergaa.",
+        PAYMENT_APPROVED: "✅ Kaffaltiin keessan mirkanaa'eera. Liinkiin affeerraa yeroo tokkoo kunoo.{channel_line}\n\n[Makamuuf Tuqaa]({invite_link})",
+        PAYMENT_APPROVED_JOIN_REQUEST: "✅ Kaffaltiin keessan mirkanaa'eera.{channel_line}\n\nLiinkii banaatii *Request to Join* tuqaa: gaaffiin keessan ofumaan ni mirkanaa'a.\n\n[Chaanaalicha Makamaa]({invite_link})",
+        RENEWAL_APPROVED: "✅ Haaromsi keessan mirkanaa'eera. Galmeen keessan dheereffameera — irra deebitanii makamuun hin barbaachisu.\n\n*Guyyaa xumuraa haaraa:* {date}",
+        CHANNEL_LINE: "*Chaanaalii:* {channel}",
+        MANUAL_INVITE: "🎉 Liinkiin affeerraa chaanaalii dhuunfaa keessanii kunoo: [Makamuuf Tuqaa]({invite_link})\n\n*Liinkiin kun yeroo tokko qofa hojjeta, erga tuqxanii booda ni dhumata.*",
+        PAYMENT_REJECTED: "❌ Kaffaltiin keessan hin mirkanoofne. Sababa isaa beekuuf bulchaa qunnamaa.",
+        PAYMENT_REJECTED_WITH_REASON: "❌ Kaffaltiin keessan hin mirkanoofne.",
+        REASON_LINE: "*Sababa:* {reason}",
+        RESUBMIT_HINT: "Maaloo kana sirreessaatii odeeffannoo kaffaltii keessanii irra deebitanii erguuf *Irra Deebi'ii Ergi* tuqaa.",
+        REJECTION_AMOUNT: "Maallaqni kaffalame gatii galmee wajjin wal hin simu.",
+        REJECTION_NOT_FOUND: "Kaffaltii keessan argachuu hin dandeenye.",
+        REJECTION_PHONE: "Lakkoofsi bilbilaa kaffaltii wajjin wal hin simu.",
+        RESUBMIT_NOTHING: "🚫 Kaffaltiin didame kan irra deebi'ee ergamu hin jiru. Jalqabuuf /start fayyadamaa.",
+        RESUBMIT_TITLE: "🔁 *Kaffaltii keessan irra deebi'uun ergaa jirra*\n\n",
+        ACCESS_REVOKED: "⛔ Seensi chaanaalii dhuunfaa keessanii haqameera. Irra deebitanii galmaa'uuf /start fayyadamaa.",
+        JOIN_REQUEST_DECLINED: "🚫 Maamiltummaa hojiirra jiru waan hin qabneef, gaaffiin chaanaalii dhuunfaatti makamuuf dhiyeessitan hin fudhatamne.{channel_line}\n\nGalmaa'uuf /start ergaa, sana booda irra deebitanii makamuuf gaafadhaa.",
+        RENEW_TITLE: "🔄 *Galmee Keessan Haaromsaa*\n\n",
+        RENEW_CURRENT_ACCESS: "Seensi keessan amma jiru{channel} hanga *{date}* tti tura.\n",
+        RENEW_PLAN_NOTE: "Yeroo mirkanaa'u, karoorri isin filattan isa irratti dabalama.\n\n",
+        RENEW_DAYS_NOTE: "Yeroo mirkanaa'u, guyyoota {days} dabalataan ni dabalama.\n\n",
+        EXPIRY_REMINDER: "⏰ *Galmeen keessan{channel} guyyaa {days_left} keessatti xumurama* ({date}).\n\n",
+        EXPIRY_REMINDER_ACTION: "\n\nSeensa keessan itti fufsiisuuf *Haaromsi* armaan gadii tuqaa.",
+        CHECKOUT_UNAVAILABLE: "🚫 Kaffaltiin toora interneetii hin jiru. Maaloo tarkaanfiiwwan kaffaltii harkaa hordofaa.",
+        CHECKOUT_NEEDS_START: "🚫 Toora interneetiin kaffaluuf maaloo dura /start ergaa.",
+        CHECKOUT_NO_AMOUNT: "❌ Hangi kaffaltii ammallee hin murtoofne. Maaloo bulchaa qunnamaa.",
+        CHECKOUT_FAILED: "❌ Kaffaltii toora interneetii jalqabuun hin danda'amne. Maaloo irra deebi'aa yaalaa ykn tarkaanfiiwwan kaffaltii harkaa fayyadamaa.",
+        CHECKOUT_READY: "💳 *Kaffaltii Toora Interneetii*\n\n*{amount} ETB* kaffaluuf qabduu armaan gadii tuqaa. Kaffaltiin yeroo milkaa'u seensi keessan ofumaan kennama.",
+        STATUS_TITLE: "ℹ️ *Haala Galmee Keessanii:*",
+        STATUS_LINE: "*Haala:* `{status}`\n",
+        PHONE_LINE: "*Bilbila:* `{phone}`\n",
+        EXPIRES_LINE: "*Guyyaa xumuraa:* {date}\n",
+        DAYS_REMAINING_LINE: "*Guyyoota hafan:* {days_left}\n",
+        RENEWAL_PENDING_LINE: "*Haaromsa:* Bulchaan ilaalamaa jira\n",
+        STATUS_NOT_REGISTERED: "❌ Hin galmoofne. Jalqabuuf `/start` fayyadamaa.",
+        STATUS_CHOOSE_PLAN: "🏷️ Maaloo karoora galmee filadhaa. Filannoowwan ilaaluuf /start fayyadamaa.",
+        STATUS_SEND_PROOF: "🧾 Tarkaanfii 3: *Amma ragaa kaffaltii keessanii ergaa* (suuraa nagahee, faayilii nagahee ykn SMS mirkaneessaa).",
+        STATUS_SEND_PHONE: "📲 Tarkaanfii 2: *Amma lakkoofsa bilbilaa ittiin kaffaltan ergaa.* Akkaataawwan deeggaraman: `+2519xxxxxxxx` ykn `09xxxxxxxx`.",
+        BUTTON_CONFIRM_PAYMENT: "✅ Kaffaltii Mirkaneessi",
+        BUTTON_RESUBMIT: "🔁 Irra Deebi'ii Ergi",
+        BUTTON_RENEW: "🔄 Haaromsi",
+        BUTTON_PAY_ONLINE: "💳 Toora interneetiin kaffali (Chapa)",
+        BUTTON_PAY_AMOUNT: "💳 {amount} ETB kaffali",
+        LANGUAGE_PROMPT: "🌐 *Afaan filadhaa:*",
+        LANGUAGE_SET: "✅ Afaan gara *Afaan Oromoo* jijjiirameera.",
+        NOT_AN_ADMIN: "🚫 Isin amma bulchaa miti. Gochi kun hin raawwatamne.",
+        UNKNOWN_COMMAND: "Ajajni hin beekamne. Ajajawwan jiran ilaaluuf `/help` ergaa.",
+        REGULAR_HELP: "👋 *GoldBot* gargaaraa galmee.\n\n*Ajajawwan:*\n• `/start` - Galmee jalqabi\n• `/status` - Haala galmee keessanii ilaali\n• `/renew` - Galmee keessan dursitanii dheereffadhaa\n• `/language` - Afaan jijjiiri\n• `/help` - Ergaa kana agarsiisi",
+    },
+};
+
+// Catalog texts offered in the "📝 Message Templates" editor, with the placeholders each one is sent with.
+// {name} (the user's display name) works in every text. Required placeholders can't be left out.
+interface MessageTemplate {
+    key: MessageKey;
+    label: string;
+    placeholders: string[];
+    required?: string[];
+}
+const MESSAGE_TEMPLATES: MessageTemplate[] = [
+    { key: 'WELCOME_HELLO', label: "👋 Greeting", placeholders: ['{name}'] },
+    { key: 'WELCOME_NEW_USER', label: "🎉 Welcome", placeholders: ['{name}'] },
+    { key: 'PAYMENT_STEPS', label: "🧾 Payment Instructions", placeholders: ['{name}', '{amount}', '{phone}', '{plan_line}'] },
+    { key: 'PAYMENT_REMINDER', label: "ℹ️ Payment Reminder", placeholders: ['{name}', '{amount}', '{phone}', '{plan_line}'] },
+    { key: 'PAYMENT_APPROVED', label: "✅ Payment Approved", placeholders: ['{name}', '{invite_link}', '{channel_line}'], required: ['{invite_link}'] },
+    { key: 'PAYMENT_APPROVED_JOIN_REQUEST', label: "✅ Payment Approved (Join Request)", placeholders: ['{name}', '{invite_link}', '{channel_line}'], required: ['{invite_link}'] },
+    { key: 'RENEWAL_APPROVED', label: "🔄 Renewal Approved", placeholders: ['{name}', '{date}', '{days_left}'] },
+    { key: 'MANUAL_INVITE', label: "✉️ Manual Invite", placeholders: ['{name}', '{invite_link}'], required: ['{invite_link}'] },
+    { key: 'PAYMENT_REJECTED', label: "❌ Payment Rejected", placeholders: ['{name}'] },
+    { key: 'ACCESS_REVOKED', label: "⛔ Access Revoked", placeholders: ['{name}'] },
+    { key: 'JOIN_REQUEST_DECLINED', label: "🚫 Join Request Declined", placeholders: ['{name}', '{channel_line}'] },
+    { key: 'EXPIRY_REMINDER', label: "⏰ Expiry Reminder", placeholders: ['{name}', '{days_left}', '{date}', '{channel}'] },
+    { key: 'REGULAR_HELP', label: "❓ Help", placeholders: ['{name}'] },
+];
+
+// Example values used for template previews and the Markdown check
+const TEMPLATE_SAMPLE_VALUES: Record<string, string | number> = {
+    name: "Abebe",
+    amount: "500",
+    phone: "+251911223344",
+    days_left: 3,
+    days: 30,
+    date: "Mon, 01 Jan 2024",
+    invite_link: "https://t.me/+AbCdEfGhIjKlMnOp",
+    channel: " (Gold Daily)",
+    channel_line: "",
+    plan: "1 Month — 500 ETB (30 days)",
+    plan_line: "*Plan:* 1 Month — 500 ETB (30 days)\n",
+    reason: "We couldn't find your payment.",
+    transaction_id: "BE12XYZ345",
+    status: "APPROVED",
+};
 
 // =========================================================
 // 1A. VALIDATION UTILITIES
@@ -108,6 +553,174 @@ function validatePaymentAmount(amount: string): { valid: boolean; error?: string
     return { valid: true };
 }
 
+// Validates a plan definition sent as "Name | Days | Price" (e.g. "3 Months | 90 | 1400")
+function validatePlanInput(input: string): { valid: boolean; name?: string; durationDays?: number; price?: string; error?: string } {
+    const parts = input.split('|').map(part => part.trim());
+    if (parts.length !== 3 || !parts[0]) {
+        return { valid: false, error: "Invalid plan. Use format: Name | Days | Price (e.g. 3 Months | 90 | 1400)" };
+    }
+
+    const [name, daysText, price] = parts;
+    if (name.length > 32) {
+        return { valid: false, error: "Plan name is too long (max 32 characters)." };
+    }
+
+    if (!/^\d+$/.test(daysText) || parseInt(daysText, 10) <= 0 || parseInt(daysText, 10) > 3660) {
+        return { valid: false, error: "Invalid duration. Use a whole number of days between 1 and 3660." };
+    }
+
+    const priceValidation = validatePaymentAmount(price);
+    if (!priceValidation.valid) {
+        return { valid: false, error: priceValidation.error };
+    }
+
+    return { valid: true, name, durationDays: parseInt(daysText, 10), price };
+}
+
+// Validates a webhook secret token (Telegram allows 1-256 characters: A-Z, a-z, 0-9, _ and -)
+function validateWebhookSecret(secret: string): { valid: boolean; error?: string } {
+    if (!/^[A-Za-z0-9_-]{1,256}$/.test(secret)) {
+        return { valid: false, error: "WEBHOOK_SECRET must be 1-256 characters of A-Z, a-z, 0-9, _ or -." };
+    }
+    return { valid: true };
+}
+
+// Validates a text override sent as "KEY | locale | text" (e.g. "RENEW_HINT | am | ...").
+// Only the placeholders of the catalog text may be used.
+function validateTextOverrideInput(input: string): { valid: boolean; key?: MessageKey; locale?: Locale; text?: string; error?: string } {
+    const match = input.match(/^\s*([A-Za-z_]+)\s*\|\s*([A-Za-z]+)\s*\|([\s\S]*)$/);
+    if (!match) {
+        return { valid: false, error: "Invalid input. Use format: KEY | locale | text (e.g. RENEW_HINT | am | ...)" };
+    }
+
+    const key = match[1].toUpperCase();
+    const locale = match[2].toLowerCase();
+    const text = match[3].trim();
+    if (!isMessageKey(key)) {
+        return { valid: false, error: `Unknown text key \`${key}\`. Use *📋 Text Keys* to see them all.` };
+    }
+    if (!isLocale(locale)) {
+        return { valid: false, error: `Unknown locale. Use one of: ${LOCALES.join(', ')}` };
+    }
+
+    const templateValidation = validateTemplateText(key, text);
+    if (!templateValidation.valid) {
+        return { valid: false, error: templateValidation.error };
+    }
+    return { valid: true, key, locale, text };
+}
+
+// Placeholders a catalog text may use: the template's list, or those of the built-in text plus {name}
+function getAllowedPlaceholders(key: MessageKey): string[] {
+    const template = MESSAGE_TEMPLATES.find(entry => entry.key === key);
+    if (template) return template.placeholders;
+    const builtIn: string[] = MESSAGES_EN[key].match(/\{\w+\}/g) || [];
+    return Array.from(new Set(['{name}', ...builtIn]));
+}
+
+// Validates an admin-written text for a catalog key: length, placeholders and Telegram Markdown
+function validateTemplateText(key: MessageKey, text: string): { valid: boolean; error?: string } {
+    if (!text || text.length > MAX_TEMPLATE_LENGTH) {
+        return { valid: false, error: `The text must be between 1 and ${MAX_TEMPLATE_LENGTH} characters.` };
+    }
+
+    const allowedPlaceholders = getAllowedPlaceholders(key);
+    const usedPlaceholders: string[] = text.match(/\{\w+\}/g) || [];
+    const unknownPlaceholders = usedPlaceholders.filter(placeholder => !allowedPlaceholders.includes(placeholder));
+    if (unknownPlaceholders.length > 0) {
+        return { valid: false, error: `Unknown placeholder(s) ${unknownPlaceholders.join(', ')}. This text supports: ${allowedPlaceholders.join(', ')}` };
+    }
+    const missingPlaceholders = (MESSAGE_TEMPLATES.find(entry => entry.key === key)?.required || [])
+        .filter(placeholder => !usedPlaceholders.includes(placeholder));
+    if (missingPlaceholders.length > 0) {
+        return { valid: false, error: `This text must contain ${missingPlaceholders.join(', ')}.` };
+    }
+
+    // Checked with example values filled in, since placeholder names contain underscores
+    const markdownError = findMarkdownError(formatText(text, TEMPLATE_SAMPLE_VALUES));
+    if (markdownError) {
+        return { valid: false, error: `Broken Markdown: ${markdownError}` };
+    }
+    return { valid: true };
+}
+
+// Finds the first Legacy Markdown entity Telegram would fail to parse (*bold*, _italic_, `code`,
+// ```pre```, [text](url)). Entities can't be nested; \ escapes the next marker. Returns null when fine.
+function findMarkdownError(text: string): string | null {
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\\' && '*_`['.includes(text[i + 1] || '')) {
+            i += 2;
+        } else if (text.startsWith('```', i)) {
+            const end = text.indexOf('```', i + 3);
+            if (end === -1) return "a ``` block is never closed.";
+            i = end + 3;
+        } else if (char === '*' || char === '_' || char === '`') {
+            const end = text.indexOf(char, i + 1);
+            if (end === -1) return `the ${char} at "${text.slice(Math.max(0, i - 10), i + 10).replace(/\n/g, ' ')}" is never closed.`;
+            i = end + 1;
+        } else if (char === '[') {
+            const close = text.indexOf(']', i + 1);
+            if (close === -1) return `the [ at "${text.slice(i, i + 20).replace(/\n/g, ' ')}" is never closed.`;
+            if (text[close + 1] === '(') {
+                const urlEnd = text.indexOf(')', close + 2);
+                if (urlEnd === -1) return `the link "${text.slice(i, close + 1)}" has no closing ).`;
+                i = urlEnd + 1;
+            } else {
+                i = close + 1;
+            }
+        } else {
+            i++;
+        }
+    }
+    return null;
+}
+
+// Fields extracted from a pasted Telebirr / CBE Birr confirmation SMS
+interface ParsedPaymentSms {
+    provider: 'telebirr' | 'cbebirr';
+    transactionId: string;
+    amount?: string; // e.g. "500.00" (first amount in the SMS; the balance comes later)
+    sender?: string; // Account holder name from "Dear <name>" or the "from <name>" part
+    timestamp?: number; // Transaction time as written in the SMS (local time, treated as UTC)
+}
+
+// Parses Telebirr and CBE Birr confirmation SMS texts. Returns null when no transaction ID is found.
+// Examples:
+//   "Dear Abebe, You have transferred ETB 500.00 to Selam (2519****1234) on 12/05/2024 14:23:11.
+//    Your transaction number is BE12XYZ345. ... telebirr"
+//   "Dear Abebe, you have sent 500.00Br. to Selam 0911****34 on 12/05/2024 at 14:23, Txn ID: 9CB1A2B3C4. ... CBE Birr"
+function parsePaymentSms(text: string): ParsedPaymentSms | null {
+    const provider = /cbe\s*birr/i.test(text) ? 'cbebirr' : /tele\s*birr/i.test(text) ? 'telebirr' : null;
+    if (!provider) return null;
+
+    const transactionMatch = text.match(/(?:transaction\s*(?:number|no\.?|id)|txn\s*id|trans(?:action)?\s*ref(?:erence)?)\s*(?:is|:|-)?\s*([A-Z0-9]{8,20})\b/i);
+    if (!transactionMatch) return null;
+
+    const parsed: ParsedPaymentSms = { provider, transactionId: transactionMatch[1].toUpperCase() };
+
+    const amountMatch = text.match(/(?:ETB|Birr|Br\.?)\s*([\d,]+(?:\.\d{1,2})?)|([\d,]+(?:\.\d{1,2})?)\s*(?:ETB|Birr|Br\b)/i);
+    if (amountMatch) {
+        parsed.amount = (amountMatch[1] || amountMatch[2]).replace(/,/g, '');
+    }
+
+    const senderMatch = text.match(/\bDear\s+([^,.\n]{2,40})[,.]/i) || text.match(/\bfrom\s+([A-Za-z][A-Za-z .'-]{1,40}?)\s*(?:\(|\d|on\b)/i);
+    if (senderMatch && !/^customer$/i.test(senderMatch[1].trim())) {
+        parsed.sender = senderMatch[1].trim();
+    }
+
+    const dateMatch = text.match(/(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})(?:\s*(?:at\s*)?(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (dateMatch) {
+        const [, day, month, year, hours, minutes, seconds] = dateMatch;
+        const timestamp = Date.UTC(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10),
+            parseInt(hours || '0', 10), parseInt(minutes || '0', 10), parseInt(seconds || '0', 10));
+        if (!isNaN(timestamp)) parsed.timestamp = timestamp;
+    }
+
+    return parsed;
+}
+
 // Validates Telegram User ID
 function validateUserId(userId: string): { valid: boolean; error?: string } {
     const trimmed = userId.trim();
@@ -128,6 +741,20 @@ function validateUserId(userId: string): { valid: boolean; error?: string } {
 // 1B. ERROR HANDLING UTILITIES
 // =========================================================
 
+// Compares two strings without returning early on the first mismatch
+function timingSafeEqual(a: string, b: string): boolean {
+    const length = Math.max(a.length, b.length);
+    let mismatch = a.length ^ b.length;
+    for (let i = 0; i < length; i++) {
+        mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+    }
+    return mismatch === 0;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // Safely wraps KV operations with error handling
 async function safeKVGet<T>(key: string, env: Env, defaultValue: T): Promise<T> {
     try {
@@ -150,87 +777,238 @@ async function safeKVPut(key: string, value: any, env: Env, options?: any): Prom
     }
 }
 
-// Safely wraps Telegram API calls
-async function safeTelegramRequest(url: string, payload: any): Promise<any | null> {
-    try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-        });
+// Short payment reminder with the current amount and phone (used when the user already started).
+// The plan's price replaces the global payment amount when a plan was chosen.
+async function getPaymentReminderText(env: Env, t: Translator, plan?: SubscriptionPlan, channels: ChannelConfig[] = []): Promise<string> {
+    let paymentAmount = 'UNKNOWN';
+    let paymentPhone = 'UNKNOWN';
+    try { paymentAmount = plan?.price || await getPaymentAmount(env) || 'UNKNOWN'; } catch (e) { }
+    try { paymentPhone = await getPaymentPhone(env) || 'UNKNOWN'; } catch (e) { }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`Telegram API Error: ${response.status} - ${errorText}`);
-            return null;
-        }
+    const planLine = plan ? t('PLAN_LINE', { plan: formatPlan(plan, channels) }) : '';
+    return t('PAYMENT_REMINDER', { plan_line: planLine, amount: paymentAmount, phone: paymentPhone });
+}
 
-        const data = await response.json();
-        if (!data.ok) {
-            console.error(`Telegram API returned ok=false:`, data);
-            return null;
+// Full step-by-step payment instructions sent when a registration starts
+async function getPaymentStepsText(env: Env, t: Translator, plan?: SubscriptionPlan, channels: ChannelConfig[] = []): Promise<string> {
+    let paymentAmount = 'UNKNOWN';
+    let paymentPhone = 'UNKNOWN';
+    try { paymentAmount = plan?.price || await getPaymentAmount(env) || 'UNKNOWN'; } catch (e) { }
+    try { paymentPhone = await getPaymentPhone(env) || 'UNKNOWN'; } catch (e) { }
+
+    const planLine = plan ? `\n${t('PLAN_LINE', { plan: formatPlan(plan, channels) })}` : '';
+    return t('PAYMENT_STEPS', { plan_line: planLine, amount: paymentAmount, phone: paymentPhone });
+}
+
+// Plan selection prompt shown before the payment steps when plans are configured
+function getPlanChoiceMessage(t: Translator, plans: SubscriptionPlan[], channels: ChannelConfig[] = []) {
+    return {
+        text: `${t('PLAN_CHOICE_TITLE')}\n\n${plans.map(plan => `• ${formatPlan(plan, channels)}`).join('\n')}`,
+        markup: {
+            inline_keyboard: plans.map(plan => [{ text: formatPlan(plan, channels), callback_data: `/choose_plan ${plan.id}` }])
         }
+    };
+}
 
-        return data.result;
-    } catch (error) {
-        console.error(`Telegram API Request Failed:`, error);
-        return null;
-    }
+
+// =========================================================
+// 2. TELEGRAM API CLIENT
+// =========================================================
+
+// --- Bot API Types (the fields this bot reads) ---
+interface TelegramUser {
+    id: number;
+    is_bot?: boolean;
+    first_name?: string;
+    last_name?: string;
+    username?: string;
+    language_code?: string;
 }
 
-// Function to combine the  instructions
-async function getFullInstructions(env: Env): Promise<string> {
-    let paymentAmount = null;
-    let paymentPhone = null;
-    let errorLog = '';
+interface TelegramChat {
+    id: number;
+    type: string; // private, group, supergroup or channel
+    title?: string;
+    username?: string;
+    first_name?: string;
+    last_name?: string;
+}
 
-    try {
-        paymentAmount = await getPaymentAmount(env);
-    } catch (e) {
-        errorLog += `Failed to load payment amount. `;
-    }
+interface TelegramPhotoSize {
+    file_id: string;
+    file_unique_id?: string;
+    width?: number;
+    height?: number;
+    file_size?: number;
+}
 
-    try {
-        paymentPhone = await getPaymentPhone(env);
-    } catch (e) {
-        errorLog += `Failed to load payment phone number. `;
-    }
+interface TelegramDocument {
+    file_id: string;
+    file_unique_id?: string;
+    file_name?: string;
+    mime_type?: string;
+}
 
-    let paymentInstruction = `💰 Step 1: Pay with Telebirr to: `;
-    if (paymentAmount) {
-        paymentInstruction += `\`${paymentAmount}\` ETB to `;
-    }
-    if (paymentPhone) {
-        paymentInstruction += `📞 \`${paymentPhone}\``;
-    } else {
-        paymentInstruction += `an unset phone number. (Admin needs to set)`;
-    }
+interface TelegramMessage {
+    message_id: number;
+    from?: TelegramUser;
+    chat: TelegramChat;
+    date: number;
+    text?: string;
+    caption?: string;
+    photo?: TelegramPhotoSize[];
+    document?: TelegramDocument;
+}
 
-    const promptPhoneInstruction = `📲 Step 2: *Now, please send the phone number you paid from.* Supported formats: \`+2519xxxxxxxx\` or \`09xxxxxxxx\`.`;
+interface TelegramCallbackQuery {
+    id: string;
+    from: TelegramUser;
+    message?: TelegramMessage;
+    data?: string;
+}
 
-    const debugInfo = errorLog ? `\n\n[ADMIN DEBUG: ${errorLog}Please check bot configuration.]` : '';
+interface TelegramChatMember {
+    status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+    user: TelegramUser;
+    is_member?: boolean; // Restricted members only
+    can_invite_users?: boolean; // Administrators only
+    can_restrict_members?: boolean;
+    can_post_messages?: boolean;
+}
 
-    return `
-👑✨ Gold Market - Registration ✨👑
-Welcome! 👋
-To get daily updates by joining our private channel, please:
+interface TelegramChatInviteLink {
+    invite_link: string; // Links created by other admins arrive partly hidden ("https://t.me/+AbC...")
+    creator?: TelegramUser;
+    name?: string;
+    member_limit?: number;
+    expire_date?: number;
+    creates_join_request?: boolean;
+    is_revoked?: boolean;
+}
 
-${paymentInstruction}
-${promptPhoneInstruction}
-${PROMPT_CONFIRM}
-${debugInfo}
-`;
+// A member's status changed in a chat the bot administers (sent only when listed in allowed_updates)
+interface TelegramChatMemberUpdated {
+    chat: TelegramChat;
+    from: TelegramUser; // Who made the change (the user themselves when joining)
+    date: number;
+    old_chat_member: TelegramChatMember;
+    new_chat_member: TelegramChatMember;
+    invite_link?: TelegramChatInviteLink; // The link used to join, for joins by link
+    via_join_request?: boolean;
 }
 
+// Someone asked to join a chat through a join-request link
+interface TelegramChatJoinRequest {
+    chat: TelegramChat;
+    from: TelegramUser;
+    user_chat_id: number; // Private chat the bot may message for 5 minutes, even if the user never started it
+    date: number;
+    invite_link?: TelegramChatInviteLink;
+}
 
-// =========================================================
-// 2. TELEGRAM API HELPERS 
-// =========================================================
+interface TelegramUpdate {
+    update_id: number;
+    message?: TelegramMessage;
+    callback_query?: TelegramCallbackQuery;
+    chat_member?: TelegramChatMemberUpdated;
+    chat_join_request?: TelegramChatJoinRequest;
+}
 
-// Helper function to send messages back to Telegram
-// Helper to send messages back to Telegram
-async function sendTelegramMessage(chat_id: number, text: string, env: Env, reply_markup?: any, parse_mode: string | undefined | null = 'Markdown'): Promise<boolean> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/sendMessage`;
+interface TelegramWebhookInfo {
+    url: string;
+    pending_update_count: number;
+    allowed_updates?: string[];
+    last_error_date?: number;
+    last_error_message?: string;
+}
+
+interface TelegramError {
+    kind: TelegramErrorKind;
+    code: number; // Telegram's error_code (the HTTP status), 0 for network failures
+    description: string;
+    retryAfter?: number; // Seconds, for RATE_LIMITED
+}
+
+type TelegramResult<T> = { ok: true; result: T } | { ok: false; error: TelegramError };
+
+function getTelegramApiBase(env: Env): string {
+    return (env.TELEGRAM_API_BASE || DEFAULT_TELEGRAM_API_BASE).replace(/\/+$/, '');
+}
+
+// Maps Telegram's error_code and description to a TELEGRAM_ERROR kind
+function classifyTelegramError(code: number, description: string): TelegramErrorKind {
+    if (code === 429) return TELEGRAM_ERROR.RATE_LIMITED;
+    if (code === 0 || code >= 500) return TELEGRAM_ERROR.SERVER_ERROR;
+    if (/bot was blocked by the user|user is deactivated/i.test(description)) return TELEGRAM_ERROR.BLOCKED;
+    if (/not enough rights|administrator rights|have no rights|CHAT_ADMIN_REQUIRED|not an administrator|bot is not a member|bot was kicked/i.test(description)) return TELEGRAM_ERROR.NOT_ENOUGH_RIGHTS;
+    if (/chat not found|user not found|can't initiate conversation|PEER_ID_INVALID|USER_ID_INVALID/i.test(description)) return TELEGRAM_ERROR.CHAT_NOT_FOUND;
+    return TELEGRAM_ERROR.BAD_REQUEST;
+}
+
+// Short explanation of a failed call for admin messages
+function describeTelegramError(error: TelegramError): string {
+    switch (error.kind) {
+        case TELEGRAM_ERROR.BLOCKED: return "the user has blocked the bot";
+        case TELEGRAM_ERROR.CHAT_NOT_FOUND: return "chat not found (wrong ID, or the user never started the bot)";
+        case TELEGRAM_ERROR.NOT_ENOUGH_RIGHTS: return "the bot is missing admin rights there";
+        case TELEGRAM_ERROR.RATE_LIMITED: return `Telegram rate limit, retry in ${error.retryAfter ?? '?'}s`;
+        case TELEGRAM_ERROR.SERVER_ERROR: return "Telegram is not reachable right now";
+        default: return escapeMarkdown(error.description);
+    }
+}
+
+// Every Bot API call goes through here. Short 429s are waited out (retry_after), 5xx and network
+// errors are retried with back-off, and failures come back classified instead of thrown.
+// retry = false makes exactly one request (one subrequest), for callers that budget their own.
+async function callTelegram<T>(method: string, params: object, env: Env, retry = true): Promise<TelegramResult<T>> {
+    const url = `${getTelegramApiBase(env)}/bot${env.BOT_TOKEN}/${method}`;
+    let error: TelegramError = { kind: TELEGRAM_ERROR.SERVER_ERROR, code: 0, description: 'No response' };
+    const maxAttempts = retry ? TELEGRAM_MAX_ATTEMPTS : 1;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        let status = 0;
+        let data: any = null;
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(params),
+            });
+            status = response.status;
+            data = await response.json().catch(() => null); // Gateway errors can be HTML
+        } catch (e) {
+            console.error(`Telegram ${method} request failed:`, e);
+        }
+
+        if (data?.ok) return { ok: true, result: data.result as T };
+
+        const code = data?.error_code ?? status;
+        const description = data?.description ?? (status ? `HTTP ${status}` : 'Network error');
+        error = { kind: classifyTelegramError(code, description), code, description, retryAfter: data?.parameters?.retry_after };
+
+        let waitMs: number | null = null;
+        if (error.kind === TELEGRAM_ERROR.RATE_LIMITED && (error.retryAfter ?? 1) <= TELEGRAM_MAX_RETRY_AFTER_SECONDS) {
+            waitMs = (error.retryAfter ?? 1) * 1000;
+        } else if (error.kind === TELEGRAM_ERROR.SERVER_ERROR) {
+            waitMs = TELEGRAM_RETRY_BASE_MS * attempt;
+        }
+        if (waitMs === null || attempt === maxAttempts) break;
+        await sleep(waitMs);
+    }
+
+    console.error(`Telegram ${method} failed (${error.kind}): ${error.code} - ${error.description}`);
+    return { ok: false, error };
+}
+
+// Flags registered users whose chat rejected a delivery because they blocked the bot
+async function noteDeliveryError(chat_id: number, error: TelegramError, env: Env): Promise<void> {
+    if (error.kind === TELEGRAM_ERROR.BLOCKED && chat_id > 0) {
+        await markUserBlocked(chat_id, env);
+    }
+}
+
+// Sends a message and returns the classified result (for callers that react to failures)
+async function trySendTelegramMessage(chat_id: number, text: string, env: Env, reply_markup?: any, parse_mode: string | undefined | null = 'Markdown'): Promise<TelegramResult<TelegramMessage>> {
     const payload: any = {
         chat_id: chat_id,
         text: text,
@@ -244,8 +1022,15 @@ async function sendTelegramMessage(chat_id: number, text: string, env: Env, repl
         payload.reply_markup = reply_markup;
     }
 
-    const result = await safeTelegramRequest(url, payload);
-    return result !== null;
+    const result = await callTelegram<TelegramMessage>('sendMessage', payload, env);
+    if (!result.ok) await noteDeliveryError(chat_id, result.error, env);
+    return result;
+}
+
+// Helper to send messages back to Telegram
+async function sendTelegramMessage(chat_id: number, text: string, env: Env, reply_markup?: any, parse_mode: string | undefined | null = 'Markdown'): Promise<boolean> {
+    const result = await trySendTelegramMessage(chat_id, text, env, reply_markup, parse_mode);
+    return result.ok;
 }
 
 // Helper to escape Markdown special characters (Legacy Markdown)
@@ -254,9 +1039,36 @@ function escapeMarkdown(text: string): string {
     return text.replace(/[*_`[]/g, '\\$&');
 }
 
+// Helpers to send a photo or document by its Telegram file_id (e.g. forwarding proof of payment)
+async function sendTelegramPhoto(chat_id: number, file_id: string, caption: string, env: Env, reply_markup?: any): Promise<boolean> {
+    const payload: any = { chat_id: chat_id, photo: file_id, caption: caption, parse_mode: 'Markdown' };
+    if (reply_markup) {
+        payload.reply_markup = reply_markup;
+    }
+    const result = await callTelegram<TelegramMessage>('sendPhoto', payload, env);
+    if (!result.ok) await noteDeliveryError(chat_id, result.error, env);
+    return result.ok;
+}
+
+async function sendTelegramDocument(chat_id: number, file_id: string, caption: string, env: Env, reply_markup?: any): Promise<boolean> {
+    const payload: any = { chat_id: chat_id, document: file_id, caption: caption, parse_mode: 'Markdown' };
+    if (reply_markup) {
+        payload.reply_markup = reply_markup;
+    }
+    const result = await callTelegram<TelegramMessage>('sendDocument', payload, env);
+    if (!result.ok) await noteDeliveryError(chat_id, result.error, env);
+    return result.ok;
+}
+
+// Copies any message (text, photo, document...) into another chat without the "Forwarded from" header
+async function copyTelegramMessage(chat_id: number, from_chat_id: number, message_id: number, env: Env, retry = true): Promise<TelegramResult<{ message_id: number }>> {
+    const result = await callTelegram<{ message_id: number }>('copyMessage', { chat_id, from_chat_id, message_id }, env, retry);
+    if (!result.ok) await noteDeliveryError(chat_id, result.error, env);
+    return result;
+}
+
 // Helper to edit an existing message (for cleaner UI navigation)
 async function editTelegramMessage(chat_id: number, message_id: number, text: string, env: Env, reply_markup?: any): Promise<boolean> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/editMessageText`;
     const payload: any = {
         chat_id: chat_id,
         message_id: message_id,
@@ -268,158 +1080,127 @@ async function editTelegramMessage(chat_id: number, message_id: number, text: st
         payload.reply_markup = reply_markup;
     }
 
-    const result = await safeTelegramRequest(url, payload);
-    return result !== null;
+    const result = await callTelegram<TelegramMessage | true>('editMessageText', payload, env);
+    return result.ok;
 }
 
 // Helper to delete a message
 async function deleteTelegramMessage(chat_id: number, message_id: number, env: Env): Promise<boolean> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/deleteMessage`;
-    const payload = {
-        chat_id: chat_id,
-        message_id: message_id
-    };
-    const result = await safeTelegramRequest(url, payload);
-    return result !== null;
+    const result = await callTelegram<true>('deleteMessage', { chat_id, message_id }, env);
+    return result.ok;
 }
 
-// Helper function to generate a single-use invite link
-async function generateSingleUseInviteLink(channel_id: string, name: string, env: Env) {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/createChatInviteLink`;
+// Stops the loading spinner on a pressed inline button
+async function answerCallbackQuery(callback_query_id: string, env: Env): Promise<boolean> {
+    const result = await callTelegram<true>('answerCallbackQuery', { callback_query_id }, env);
+    return result.ok;
+}
 
+// Helper function to generate a single-use invite link
+async function generateSingleUseInviteLink(channel_id: string, name: string, env: Env): Promise<TelegramResult<TelegramChatInviteLink>> {
     const payload = {
         chat_id: channel_id,
         member_limit: 1,
-        name: name
+        name: name.slice(0, 32) // Telegram's limit for invite link names
     };
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-    });
-
-    if (response.ok) {
-        const result = await response.json();
-        // Return the full object to store the link
-        return result.result;
-    } else {
-        console.error('Failed to create invite link:', await response.text());
-        return null;
-    }
+    return await callTelegram<TelegramChatInviteLink>('createChatInviteLink', payload, env);
 }
 
-// Helper function to explicitly revoke (delete) a chat invite link
-async function revokeChatInviteLink(channel_id: string, invite_link: string, env: Env): Promise<boolean> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/revokeChatInviteLink`;
-
+// Creates a link that asks to join instead of joining directly (no member limit; requests go to
+// handleChatJoinRequest)
+async function createJoinRequestLink(channel_id: string, name: string, env: Env): Promise<TelegramResult<TelegramChatInviteLink>> {
     const payload = {
         chat_id: channel_id,
-        invite_link: invite_link
+        creates_join_request: true,
+        name: name.slice(0, 32)
     };
+    return await callTelegram<TelegramChatInviteLink>('createChatInviteLink', payload, env);
+}
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-    });
+async function approveChatJoinRequest(channel_id: string, user_id: number, env: Env): Promise<TelegramResult<true>> {
+    return await callTelegram<true>('approveChatJoinRequest', { chat_id: channel_id, user_id: user_id }, env);
+}
 
-    if (!response.ok) {
-        // This is okay if the link was already consumed/deleted, but log for debug
-        const errorText = await response.text();
-        console.warn(`Failed to explicitly revoke link ${invite_link}: ${errorText}`);
-        return false;
-    }
-    return true;
+async function declineChatJoinRequest(channel_id: string, user_id: number, env: Env): Promise<TelegramResult<true>> {
+    return await callTelegram<true>('declineChatJoinRequest', { chat_id: channel_id, user_id: user_id }, env);
 }
 
+// Helper function to explicitly revoke (delete) a chat invite link.
+// Fails harmlessly if the link was already consumed or deleted.
+async function revokeChatInviteLink(channel_id: string, invite_link: string, env: Env): Promise<TelegramResult<TelegramChatInviteLink>> {
+    return await callTelegram<TelegramChatInviteLink>('revokeChatInviteLink', { chat_id: channel_id, invite_link: invite_link }, env);
+}
 
-// Helper function to kick out (unban) a user from a chat/channel
-async function unbanChatMember(channel_id: string, user_id: number, env: Env) {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/unbanChatMember`;
+// Removes a user from a chat/channel and bans them until until_date (Unix seconds; omitted = forever).
+// Telegram treats bans under 30 seconds or over 366 days as permanent.
+async function banChatMember(channel_id: string, user_id: number, env: Env, until_date?: number): Promise<TelegramResult<true>> {
+    const payload: any = { chat_id: channel_id, user_id: user_id };
+    if (until_date) payload.until_date = until_date;
+    return await callTelegram<true>('banChatMember', payload, env);
+}
 
-    // Setting only_if_banned: false ensures that if the user is a member, 
-    // calling this acts as a 'kick'. They will need a new invite link to rejoin.
+// Lifts a ban so the user can join again with a new invite link.
+// only_if_banned keeps this from removing users who are not banned.
+async function unbanChatMember(channel_id: string, user_id: number, env: Env): Promise<TelegramResult<true>> {
     const payload = {
         chat_id: channel_id,
         user_id: user_id,
-        only_if_banned: false,
+        only_if_banned: true,
     };
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-        // Log the error but don't fail the entire revocation, as state update is more critical
-        console.error(`Failed to KICK user ${user_id} from ${channel_id}:`, await response.text());
-        return false;
-    }
-    return true;
+    return await callTelegram<true>('unbanChatMember', payload, env);
 }
 
-// Fetches display name from Telegram using the getChat API
-async function getUserDisplayDetails(userId: number, env: Env): Promise<string> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/getChat`;
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ chat_id: userId }),
-    });
-
-    if (response.ok) {
-        const result = await response.json();
-        const chat = result.result;
-
-        // Prioritize username, then full name, then fallback
-        let displayName = chat.username ? `@${chat.username}` : chat.first_name;
-        if (chat.last_name && !chat.username) {
-            displayName += ` ${chat.last_name}`;
-        }
-
-        return displayName || `Unknown User`;
-    } else {
-        return `[ID ${userId} - Details Unavailable]`;
-    }
+// Removes a user from a chat without keeping them banned. unbanChatMember alone doesn't reliably
+// remove members, so the user is banned and the ban is lifted right away.
+async function kickChatMember(channel_id: string, user_id: number, env: Env): Promise<TelegramResult<true>> {
+    const banResult = await banChatMember(channel_id, user_id, env);
+    if (!banResult.ok) return banResult;
+    return await unbanChatMember(channel_id, user_id, env);
 }
 
-// Fetches a user's membership status in a specific chat/channel
-async function getChatMember(channel_id: string, user_id: number, env: Env): Promise<{ status: string } | null> {
-    const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/getChatMember`;
+// Registers the webhook URL with Telegram, including the secret token and allowed update types
+async function setTelegramWebhook(webhookUrl: string, env: Env): Promise<boolean> {
     const payload = {
-        chat_id: channel_id,
-        user_id: user_id,
+        url: webhookUrl,
+        secret_token: env.WEBHOOK_SECRET,
+        allowed_updates: WEBHOOK_ALLOWED_UPDATES,
     };
+    const result = await callTelegram<true>('setWebhook', payload, env);
+    return result.ok;
+}
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-    });
+// Fetches the current webhook status (URL, pending updates, last error)
+async function getTelegramWebhookInfo(env: Env): Promise<TelegramWebhookInfo | null> {
+    const result = await callTelegram<TelegramWebhookInfo>('getWebhookInfo', {}, env);
+    return result.ok ? result.result : null;
+}
 
-    let result;
-    try {
-        result = await response.json();
-    } catch (e) {
-        // This can happen if Telegram returns a non-JSON error (e.g., HTML error page).
-        const responseBody = await response.text().catch(() => 'could not read body');
-        console.error(`Failed to parse JSON from getChatMember for user ${user_id}. Status: ${response.status}. Body:`, responseBody);
-        return null; // Failed to parse, can't determine status.
+// Fetches display name from Telegram using the getChat API
+async function getUserDisplayDetails(userId: number, env: Env): Promise<string> {
+    const result = await callTelegram<TelegramChat>('getChat', { chat_id: userId }, env);
+    if (!result.ok) return `[ID ${userId} - Details Unavailable]`;
+
+    // Prioritize username, then full name, then fallback
+    const chat = result.result;
+    let displayName = chat.username ? `@${chat.username}` : chat.first_name;
+    if (chat.last_name && !chat.username) {
+        displayName += ` ${chat.last_name}`;
     }
 
-    if (response.ok) {
-        return result.result; // This is the ChatMember object.
-    } else {
-        // If the user isn't in the chat, Telegram API returns an error. A "user not found" error is expected.
-        if (result && result.description && result.description.includes('user not found')) {
-            return { status: 'not_found' }; // Indicates user is not in the group.
-        }
-        console.error(`API Error from getChatMember for user ${user_id} in channel ${channel_id}:`, result);
-        return null; // On other unexpected errors.
+    return displayName || `Unknown User`;
+}
+
+// Fetches a user's membership status in a specific chat/channel.
+// { status: 'not_found' } means the user is not in the chat; null means it could not be determined.
+async function getChatMember(channel_id: string, user_id: number, env: Env): Promise<TelegramChatMember | { status: 'not_found' } | null> {
+    const result = await callTelegram<TelegramChatMember>('getChatMember', { chat_id: channel_id, user_id: user_id }, env);
+    if (result.ok) return result.result;
+
+    // If the user isn't in the chat, Telegram API returns an error. A "user not found" error is expected.
+    if (result.error.description.includes('user not found')) {
+        return { status: 'not_found' };
     }
+    return null; // On other unexpected errors.
 }
 
 // =========================================================
@@ -427,25 +1208,47 @@ async function getChatMember(channel_id: string, user_id: number, env: Env): Pro
 // =========================================================
 
 // --- Admin ID Management ---
-async function getAdminIds(env: Env): Promise<string[]> {
-    const adminListJson = await env.KV_BINDING.get(ADMIN_LIST_KEY);
-    return adminListJson ? JSON.parse(adminListJson) : [];
+interface AdminRecord {
+    id: string;
+    role: string; // The ADMIN_ROLE constant
+}
+
+function isValidAdminRole(role: string): boolean {
+    return Object.values(ADMIN_ROLE).includes(role);
+}
+
+function hasPermission(role: string | null, command: string): boolean {
+    if (!role) return false;
+    if (role === ADMIN_ROLE.OWNER) return true;
+    return (ROLE_PERMISSIONS[role] || []).includes(command);
+}
+
+async function getAdmins(env: Env): Promise<AdminRecord[]> {
+    const stored = await safeKVGet<(AdminRecord | string)[]>(ADMIN_LIST_KEY, env, []);
+    // Admins stored as bare ID strings (before roles existed) keep full access as owners
+    return stored.map(entry => typeof entry === 'string' ? { id: entry, role: ADMIN_ROLE.OWNER } : entry);
+}
+
+async function setAdmins(admins: AdminRecord[], env: Env): Promise<boolean> {
+    return await safeKVPut(ADMIN_LIST_KEY, admins, env);
+}
+
+// IDs of all admins, or only of those allowed to use a command (e.g. '/approve' for review notifications)
+async function getAdminIds(env: Env, permission?: string): Promise<string[]> {
+    const admins = await getAdmins(env);
+    return admins.filter(admin => !permission || hasPermission(admin.role, permission)).map(admin => admin.id);
 }
 
-async function setAdminIds(adminIds: string[], env: Env): Promise<boolean> {
-    return await safeKVPut(ADMIN_LIST_KEY, adminIds, env);
+// Returns the user's admin role, or null for non-admins
+async function getAdminRole(userId: number, env: Env): Promise<string | null> {
+    const admins = await getAdmins(env);
+    // Nobody is admin while the list is empty; the first admin uses /claim_admin
+    const admin = admins.find(entry => entry.id === userId.toString());
+    return admin ? admin.role : null;
 }
 
 async function isAdmin(userId: number, env: Env): Promise<boolean> {
-    const userIdString = userId.toString();
-    const adminList = await getAdminIds(env);
-    // Hardcode initial admin for setup if list is empty
-    if (adminList.length === 0) {
-        // Only return true if the user's ID matches the one being checked 
-        // to prevent unauthorized access while list is being populated
-        return false;
-    }
-    return adminList.includes(userIdString);
+    return (await getAdminRole(userId, env)) !== null;
 }
 
 // --- Channel ID Management ---
@@ -465,38 +1268,345 @@ async function setChannelId(channelId: string, env: Env): Promise<boolean> {
     return await safeKVPut(CHANNEL_ID_KEY, channelId, env);
 }
 
-// --- Payment Amount Management ---
-async function getPaymentAmount(env: Env): Promise<string | null> {
-    return env.KV_BINDING.get(PAYMENT_AMOUNT_KEY);
+// --- Channel Registry (one entry per private channel / tier) ---
+interface ChannelConfig {
+    id: string; // Telegram chat ID (-100...)
+    name: string; // Display name, e.g. "Premium" or "VIP"
 }
 
-async function setPaymentAmount(amount: string, env: Env): Promise<boolean> {
-    return await safeKVPut(PAYMENT_AMOUNT_KEY, amount, env);
+async function getRegisteredChannels(env: Env): Promise<ChannelConfig[]> {
+    return await safeKVGet<ChannelConfig[]>(CHANNEL_REGISTRY_KEY, env, []);
 }
 
-// --- Payment Phone Management ---
-async function getPaymentPhone(env: Env): Promise<string | null> {
-    return env.KV_BINDING.get(PAYMENT_PHONE_KEY);
+async function setRegisteredChannels(channels: ChannelConfig[], env: Env): Promise<boolean> {
+    return await safeKVPut(CHANNEL_REGISTRY_KEY, channels, env);
 }
 
-async function setPaymentPhone(phone: string, env: Env): Promise<boolean> {
-    return await safeKVPut(PAYMENT_PHONE_KEY, phone, env);
+// All channels the bot manages. The default channel (Set Channel ID) is always first, so
+// single-channel setups keep working without touching the registry.
+async function getChannels(env: Env): Promise<ChannelConfig[]> {
+    const defaultChannelId = await getChannelId(env);
+    const registered = await getRegisteredChannels(env);
+    const channels = registered.filter(channel => channel.id !== defaultChannelId);
+
+    if (defaultChannelId) {
+        const registeredDefault = registered.find(channel => channel.id === defaultChannelId);
+        channels.unshift(registeredDefault || { id: defaultChannelId, name: "Private Channel" });
+    }
+    return channels;
+}
+
+function getChannelName(channels: ChannelConfig[], channelId: string): string {
+    return channels.find(channel => channel.id === channelId)?.name || channelId;
+}
+
+// The channel a plan grants access to; plans without one (and the no-plan flow) use the default channel
+async function getPlanChannelId(plan: SubscriptionPlan | undefined, env: Env): Promise<string | null> {
+    return plan?.channelId || await getChannelId(env);
+}
+
+// Channel a payment is for: its plan's, else the subscription a plan-less renewal extends
+async function getPaymentChannelId(payment: { plan?: SubscriptionPlan; renewChannelId?: string }, env: Env): Promise<string | null> {
+    if (!payment.plan && payment.renewChannelId) return payment.renewChannelId;
+    return await getPlanChannelId(payment.plan, env);
+}
+
+// Amount and phone are written with safeKVPut (JSON strings); values stored raw are read as they are
+async function getStoredSetting(key: string, env: Env): Promise<string | null> {
+    const value = await env.KV_BINDING.get(key);
+    if (value === null) return null;
+    try {
+        return String(JSON.parse(value));
+    } catch (e) {
+        return value;
+    }
+}
+
+// --- Payment Amount Management ---
+async function getPaymentAmount(env: Env): Promise<string | null> {
+    return await getStoredSetting(PAYMENT_AMOUNT_KEY, env);
+}
+
+async function setPaymentAmount(amount: string, env: Env): Promise<boolean> {
+    return await safeKVPut(PAYMENT_AMOUNT_KEY, amount, env);
+}
+
+// --- Payment Phone Management ---
+async function getPaymentPhone(env: Env): Promise<string | null> {
+    return await getStoredSetting(PAYMENT_PHONE_KEY, env);
+}
+
+async function setPaymentPhone(phone: string, env: Env): Promise<boolean> {
+    return await safeKVPut(PAYMENT_PHONE_KEY, phone, env);
+}
+
+// --- Channel Access Mode ---
+async function getAccessMode(env: Env): Promise<string> {
+    const mode = await safeKVGet<string | null>(ACCESS_MODE_KEY, env, null);
+    return mode === ACCESS_MODE.JOIN_REQUEST ? ACCESS_MODE.JOIN_REQUEST : ACCESS_MODE.INVITE_LINK;
+}
+
+async function setAccessMode(mode: string, env: Env): Promise<boolean> {
+    return await safeKVPut(ACCESS_MODE_KEY, mode, env);
+}
+
+// --- Link Guard Mode ---
+async function getLinkGuardMode(env: Env): Promise<string> {
+    const mode = await safeKVGet<string | null>(LINK_GUARD_KEY, env, null);
+    return mode === LINK_GUARD_MODE.REMOVE ? LINK_GUARD_MODE.REMOVE : LINK_GUARD_MODE.FLAG;
+}
+
+async function setLinkGuardMode(mode: string, env: Env): Promise<boolean> {
+    return await safeKVPut(LINK_GUARD_KEY, mode, env);
+}
+
+// --- Subscription Plan Management ---
+interface SubscriptionPlan {
+    id: string; // Short id used in callback data
+    name: string; // e.g. "3 Months"
+    durationDays: number;
+    price: string; // ETB, validated like the payment amount
+    channelId?: string; // Channel the plan grants access to (default channel when absent)
+}
+
+async function getPlans(env: Env): Promise<SubscriptionPlan[]> {
+    return await safeKVGet<SubscriptionPlan[]>(PLANS_KEY, env, []);
+}
+
+async function setPlans(plans: SubscriptionPlan[], env: Env): Promise<boolean> {
+    return await safeKVPut(PLANS_KEY, plans, env);
+}
+
+// Duration of a plan; users without a plan (no plans configured) get the default month
+function getPlanDurationMs(plan?: SubscriptionPlan): number {
+    return plan ? plan.durationDays * DAY_IN_MS : MONTH_IN_MS;
+}
+
+// Channel names are only shown when more than one channel is managed
+function formatPlan(plan: SubscriptionPlan, channels: ChannelConfig[] = []): string {
+    // channels[0] is the default channel (see getChannels)
+    const channelPrefix = channels.length > 1 ? `${getChannelName(channels, plan.channelId || channels[0].id)} · ` : '';
+    return `${channelPrefix}${plan.name} — ${plan.price} ETB (${plan.durationDays} days)`;
 }
 
 // --- User Registry Management ---
-async function getRegisteredUserIds(env: Env): Promise<string[]> {
-    const idListJson = await env.KV_BINDING.get(USER_ID_LIST_KEY);
-    return idListJson ? JSON.parse(idListJson) : [];
+// Each user has their own profile key, so concurrent registrations never overwrite each other.
+// The display name is taken from the update itself; listing users needs no getChat calls.
+interface UserProfile {
+    id: string;
+    displayName: string;
+    registeredAt: number;
+    status?: string; // Last payment STATE (kept after the state itself expires)
+    language?: Locale; // From Telegram's language_code on first contact, or chosen with /language
+    blockedAt?: number; // A delivery failed because the user blocked the bot; cleared when they write again
+    flaggedAt?: number; // Set by the channel link guard (see handleChatMemberUpdate)
+    flagReason?: string;
+}
+
+// Stored as key metadata so user lists are served straight from KV.list
+interface UserIndexEntry {
+    displayName: string;
+    status?: string;
+    blocked?: boolean;
+    flagged?: boolean;
+}
+
+function getDisplayNameFromUser(from: TelegramUser): string {
+    // Same preference as getUserDisplayDetails: username, then full name
+    if (from?.username) return `@${from.username}`;
+    const fullName = [from?.first_name, from?.last_name].filter(Boolean).join(' ');
+    return fullName || `Unknown User`;
+}
+
+async function getUserProfile(userId: number | string, env: Env): Promise<UserProfile | null> {
+    return await safeKVGet<UserProfile | null>(USER_PROFILE_PREFIX + userId.toString(), env, null);
+}
+
+async function setUserProfile(profile: UserProfile, env: Env): Promise<void> {
+    const metadata: UserIndexEntry = {
+        displayName: profile.displayName,
+        status: profile.status,
+        blocked: profile.blockedAt ? true : undefined,
+        flagged: profile.flaggedAt ? true : undefined,
+    };
+    await env.KV_BINDING.put(USER_PROFILE_PREFIX + profile.id, JSON.stringify(profile), { metadata });
+}
+
+// Creates the profile on first contact and refreshes the display name when it changes.
+// A user writing to the bot has unblocked it, so the blocked flag is cleared.
+async function registerUser(from: TelegramUser, env: Env): Promise<void> {
+    const userIdString = from.id.toString();
+    const displayName = getDisplayNameFromUser(from);
+    const profile = await getUserProfile(userIdString, env);
+
+    if (!profile) {
+        await setUserProfile({ id: userIdString, displayName, registeredAt: Date.now(), language: resolveLocale(from.language_code) }, env);
+    } else if (profile.displayName !== displayName || !profile.language || profile.blockedAt) {
+        await setUserProfile({ ...profile, displayName, language: profile.language || resolveLocale(from.language_code), blockedAt: undefined }, env);
+    }
+}
+
+// Called when Telegram reports that the user blocked the bot (see noteDeliveryError)
+async function markUserBlocked(userId: number, env: Env): Promise<void> {
+    const profile = await getUserProfile(userId, env);
+    if (profile && !profile.blockedAt) {
+        await setUserProfile({ ...profile, blockedAt: Date.now() }, env);
+        console.log(`User ${userId} has blocked the bot`);
+    }
+}
+
+// Marks a registered user for admins' attention; users the bot has never talked to have no profile
+// to flag, so for them the audit log entry is the record
+async function flagUser(userId: number, reason: string, env: Env): Promise<void> {
+    const profile = await getUserProfile(userId, env);
+    if (profile) {
+        await setUserProfile({ ...profile, flaggedAt: Date.now(), flagReason: reason }, env);
+    }
+}
+
+// --- User Language ---
+type Translator = (key: MessageKey, vars?: Record<string, string | number>) => string;
+type TextOverrides = Partial<Record<Locale, Partial<Record<MessageKey, string>>>>;
+
+function isLocale(code: string): code is Locale {
+    return (LOCALES as readonly string[]).includes(code);
+}
+
+function isMessageKey(key: string): key is MessageKey {
+    return Object.prototype.hasOwnProperty.call(MESSAGES_EN, key);
+}
+
+// Maps a Telegram language_code (e.g. "am", "en-US") to a catalog locale
+function resolveLocale(languageCode?: string): Locale {
+    const base = (languageCode || '').toLowerCase().split('-')[0];
+    return isLocale(base) ? base : DEFAULT_LOCALE;
+}
+
+// Replaces {placeholders}; unknown placeholders are left as they are
+function formatText(template: string, vars: Record<string, string | number> = {}): string {
+    return template.replace(/\{(\w+)\}/g, (match, name) => vars[name] !== undefined ? vars[name].toString() : match);
+}
+
+async function getTextOverrides(env: Env): Promise<TextOverrides> {
+    return await safeKVGet<TextOverrides>(TEXT_OVERRIDES_KEY, env, {});
+}
+
+// Lookup order: admin override for the locale, catalog text for the locale, then the same for English.
+// defaults fill placeholders the caller doesn't pass (e.g. {name}).
+function createTranslator(locale: Locale, overrides: TextOverrides, defaults: Record<string, string | number> = {}): Translator {
+    return (key, vars) => {
+        const template = overrides[locale]?.[key] ?? MESSAGES[locale][key]
+            ?? overrides[DEFAULT_LOCALE]?.[key] ?? MESSAGES_EN[key];
+        return formatText(template, { ...defaults, ...vars });
+    };
+}
+
+// Translator for the user's stored language. Batch senders pass overrides to avoid re-reading them.
+async function getUserTexts(userId: number | string, env: Env, overrides?: TextOverrides): Promise<Translator> {
+    const profile = await getUserProfile(userId, env);
+    const defaults = { name: escapeMarkdown(profile?.displayName || '') };
+    return createTranslator(profile?.language || DEFAULT_LOCALE, overrides || await getTextOverrides(env), defaults);
+}
+
+// Stores (text) or drops (null) one override; returns the previous override for the audit log
+async function setTextOverride(key: MessageKey, locale: Locale, text: string | null, env: Env): Promise<{ success: boolean; before: string | null }> {
+    const overrides = await getTextOverrides(env);
+    const before = overrides[locale]?.[key] ?? null;
+    const localeOverrides = { ...overrides[locale] };
+    if (text === null) {
+        delete localeOverrides[key];
+    } else {
+        localeOverrides[key] = text;
+    }
+    overrides[locale] = localeOverrides;
+    return { success: await safeKVPut(TEXT_OVERRIDES_KEY, overrides, env), before };
+}
+
+// --- Template Drafts (edited text shown as a preview before it is saved) ---
+interface TemplateDraft {
+    key: MessageKey;
+    locale: Locale;
+    text: string;
+}
+
+async function getTemplateDraft(adminId: number, env: Env): Promise<TemplateDraft | null> {
+    return await safeKVGet<TemplateDraft | null>(TEMPLATE_DRAFT_PREFIX + adminId.toString(), env, null);
+}
+
+async function setTemplateDraft(adminId: number, draft: TemplateDraft, env: Env): Promise<boolean> {
+    return await safeKVPut(TEMPLATE_DRAFT_PREFIX + adminId.toString(), draft, env, { expirationTtl: TEMPLATE_DRAFT_TTL_SECONDS });
+}
+
+async function clearTemplateDraft(adminId: number, env: Env): Promise<void> {
+    await env.KV_BINDING.delete(TEMPLATE_DRAFT_PREFIX + adminId.toString());
+}
+
+// Display name from the registry, without calling Telegram
+async function getStoredDisplayName(userId: number | string, env: Env): Promise<string> {
+    const profile = await getUserProfile(userId, env);
+    return profile?.displayName || `[ID ${userId}]`;
 }
 
-async function registerUserId(userId: number, env: Env): Promise<void> {
+// Moves the status index entry when a user's payment state changes
+async function updateUserStatusIndex(userId: number, previousStatus: string | undefined, status: string, env: Env): Promise<void> {
     const userIdString = userId.toString();
-    const idList = await getRegisteredUserIds(env);
+    const profile = await getUserProfile(userIdString, env)
+        || { id: userIdString, displayName: `[ID ${userIdString}]`, registeredAt: Date.now() };
+
+    if (previousStatus && previousStatus !== status) {
+        await env.KV_BINDING.delete(`${USER_STATUS_INDEX_PREFIX}${previousStatus}:${userIdString}`);
+    }
+    const metadata: UserIndexEntry = { displayName: profile.displayName, status };
+    await env.KV_BINDING.put(`${USER_STATUS_INDEX_PREFIX}${status}:${userIdString}`, '', { metadata, expirationTtl: USER_STATE_TTL_SECONDS });
+
+    if (profile.status !== status) {
+        await setUserProfile({ ...profile, status }, env);
+    }
+}
+
+// Returns one page of an index prefix. KV cursors are too long for callback_data, so pages are
+// addressed by number and reached by walking the cursor.
+async function listUserIndexPage(prefix: string, page: number, env: Env): Promise<{ users: ({ id: string } & UserIndexEntry)[]; hasMore: boolean }> {
+    let cursor: string | undefined = undefined;
+    for (let skipped = 0; skipped < page; skipped++) {
+        const result: KVNamespaceListResult<UserIndexEntry> = await env.KV_BINDING.list<UserIndexEntry>({ prefix, cursor, limit: USER_PAGE_SIZE });
+        if (result.list_complete) return { users: [], hasMore: false };
+        cursor = result.cursor;
+    }
 
-    if (!idList.includes(userIdString)) {
-        idList.push(userIdString);
-        await env.KV_BINDING.put(USER_ID_LIST_KEY, JSON.stringify(idList));
+    const result: KVNamespaceListResult<UserIndexEntry> = await env.KV_BINDING.list<UserIndexEntry>({ prefix, cursor, limit: USER_PAGE_SIZE });
+    const users = result.keys.map(key => ({
+        id: key.name.slice(prefix.length),
+        displayName: key.metadata?.displayName || 'Unknown User',
+        status: key.metadata?.status,
+    }));
+    return { users, hasMore: !result.list_complete };
+}
+
+// One-time move from the registered_user_ids array and unindexed states to per-user keys
+async function migrateLegacyUserRegistry(env: Env): Promise<void> {
+    const legacyIds = await safeKVGet<string[] | null>(USER_ID_LIST_KEY, env, null);
+    if (!legacyIds) return;
+
+    for (const userIdString of legacyIds) {
+        if (!await getUserProfile(userIdString, env)) {
+            await setUserProfile({ id: userIdString, displayName: `[ID ${userIdString}]`, registeredAt: Date.now() }, env);
+        }
     }
+
+    let cursor: string | undefined = undefined;
+    do {
+        const result: KVNamespaceListResult<unknown> = await env.KV_BINDING.list({ prefix: USER_STATE_PREFIX, cursor });
+        for (const key of result.keys) {
+            const userId = parseInt(key.name.slice(USER_STATE_PREFIX.length), 10);
+            const state = await getUserState(userId, env);
+            if (state) await updateUserStatusIndex(userId, undefined, state.status, env);
+        }
+        cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+
+    await env.KV_BINDING.delete(USER_ID_LIST_KEY);
+    console.log(`Migrated ${legacyIds.length} users from ${USER_ID_LIST_KEY}`);
 }
 
 // =========================================================
@@ -504,13 +1614,14 @@ async function registerUserId(userId: number, env: Env): Promise<void> {
 // =========================================================
 
 // --- Admin Conversational State (For text inputs like IDs) ---
-async function getAdminPendingCommand(userId: number, env: Env): Promise<{ command: string } | null> {
+async function getAdminPendingCommand(userId: number, env: Env): Promise<{ command: string; data?: string } | null> {
     const json = await env.KV_BINDING.get(ADMIN_PENDING_PREFIX + userId.toString());
     return json ? JSON.parse(json) : null;
 }
 
-async function setAdminPendingCommand(userId: number, command: string, env: Env): Promise<void> {
-    const state = { command: command };
+// data carries context chosen earlier in the flow (e.g. the channel a new plan belongs to)
+async function setAdminPendingCommand(userId: number, command: string, env: Env, data?: string): Promise<void> {
+    const state = { command: command, data: data };
     // Set expiry to 5 minutes
     await env.KV_BINDING.put(ADMIN_PENDING_PREFIX + userId.toString(), JSON.stringify(state), { expirationTtl: 300 });
 }
@@ -524,286 +1635,1999 @@ interface UserPaymentState {
     status: string; // The STATE constant
     phone?: string; // Phone number provided by user
     timestamp: number; // For review/cleanup purposes
-    inviteLink?: string; // The specific, single-use invite link
+    isRenewal?: boolean; // Payment extends an active subscription instead of starting a new one
+    renewChannelId?: string; // Renewal without a plan: the channel of the subscription it extends
+    plan?: SubscriptionPlan; // Snapshot of the plan chosen, so later plan edits don't affect this payment
+    inviteLink?: string; // Legacy: approvals before subscriber records stored the link here
+    reviewedBy?: string; // Admin who approved or rejected the payment
+    rejectionReason?: string; // Why the payment was rejected; the user can resubmit while it is set
+    proof?: PaymentProof; // Receipt screenshot/file or pasted SMS sent by the user
 }
 
-async function getUserState(userId: number, env: Env): Promise<UserPaymentState | null> {
-    const json = await env.KV_BINDING.get(USER_STATE_PREFIX + userId.toString());
-    return json ? JSON.parse(json) : null;
+// Proof of payment attached to a pending payment
+interface PaymentProof {
+    type: 'photo' | 'document' | 'text' | 'checkout'; // 'checkout': an online payment held for review
+    fileId?: string; // Telegram file_id (photo/document)
+    fileName?: string; // Original document name
+    text?: string; // Pasted SMS, or the caption sent with the photo/document
+    receivedAt: number;
+    sms?: ParsedPaymentSms; // Parsed from text when it is a Telebirr / CBE Birr confirmation
+    warnings?: string[]; // Mismatches found when the proof was received, shown to reviewers
 }
 
-async function setUserState(userId: number, state: UserPaymentState, env: Env): Promise<void> {
-    // Set expiry to 7 days
-    await env.KV_BINDING.put(USER_STATE_PREFIX + userId.toString(), JSON.stringify(state), { expirationTtl: 604800 });
+// Who last submitted a transaction ID, or who it was approved for. A submitted claim is only a hint
+// for reviewers and expires with the payment state; approval makes it final (no TTL), so a receipt
+// can pay for one approval only.
+interface PaymentTransactionClaim {
+    userId: number;
+    claimedAt: number;
+    approvedAt?: number; // Set when the payment using this transaction was approved
 }
 
-// =========================================================
-// 5. CORE ACTION HANDLERS
-// =========================================================
+function getTransactionLockName(transactionId: string): string {
+    return PAYMENT_TRANSACTION_PREFIX + transactionId;
+}
 
-// Handles setting the private channel ID
-async function handleSetChannelId(chat_id: number, channelId: string, env: Env) {
-    const validation = validateChannelId(channelId);
+async function getTransactionClaim(transactionId: string, env: Env): Promise<PaymentTransactionClaim | null> {
+    return await safeKVGet<PaymentTransactionClaim | null>(PAYMENT_TRANSACTION_PREFIX + transactionId, env, null);
+}
 
-    if (validation.valid) {
-        const success = await setChannelId(channelId.trim(), env);
-        if (success) {
-            const responseMessage = `✅ Private Channel ID set to: \`${channelId.trim()}\``;
-            await sendTelegramMessage(chat_id, responseMessage, env);
-        } else {
-            await sendTelegramMessage(chat_id, "❌ Failed to save Channel ID. Please try again.", env);
+// Makes the claim final for an approved payment. Fails (returning the blocking claim) when the
+// transaction already paid for an approval, for anyone, or when another approval holds the lock.
+async function claimApprovedTransaction(transactionId: string, userId: number, env: Env): Promise<{ ok: boolean; claim?: PaymentTransactionClaim }> {
+    return await withUserLock<{ ok: boolean; claim?: PaymentTransactionClaim }>(getTransactionLockName(transactionId), null, 'CLAIM_TRANSACTION', env, { ok: false }, async () => {
+        const claim = await getTransactionClaim(transactionId, env);
+        if (claim && claim.approvedAt) {
+            return { ok: false, claim };
         }
-    } else {
-        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
-    }
+        const now = Date.now();
+        await safeKVPut(PAYMENT_TRANSACTION_PREFIX + transactionId, { userId, claimedAt: claim?.userId === userId ? claim.claimedAt : now, approvedAt: now }, env);
+        return { ok: true };
+    });
 }
 
-// Handles setting the payment amount
-async function handleSetPaymentAmount(chat_id: number, amount: string, env: Env) {
-    const validation = validatePaymentAmount(amount);
-
-    if (validation.valid) {
-        const success = await setPaymentAmount(amount.trim(), env);
-        if (success) {
-            await sendTelegramMessage(chat_id, `✅ Payment amount set to: \`${amount.trim()}\` ETB.`, env);
-        } else {
-            await sendTelegramMessage(chat_id, "❌ Failed to save payment amount. Please try again.", env);
+// Drops a user's claim that was never approved (payment rejected, or the proof replaced)
+async function releaseTransactionClaim(transactionId: string, userId: number, env: Env): Promise<void> {
+    await withUserLock(getTransactionLockName(transactionId), null, 'RELEASE_TRANSACTION', env, undefined, async () => {
+        const claim = await getTransactionClaim(transactionId, env);
+        if (claim && claim.userId === userId && !claim.approvedAt) {
+            await env.KV_BINDING.delete(PAYMENT_TRANSACTION_PREFIX + transactionId);
         }
-    } else {
-        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
-    }
+    });
 }
 
-// Handles setting the payment phone number
-async function handleSetPaymentPhone(chat_id: number, phone: string, env: Env) {
-    const validation = validateEthiopianPhone(phone);
-
-    if (validation.valid && validation.normalized) {
-        const success = await setPaymentPhone(validation.normalized, env);
-        if (success) {
-            await sendTelegramMessage(chat_id, `✅ Payment phone number set to: \`${validation.normalized}\`.`, env);
-        } else {
-            await sendTelegramMessage(chat_id, "❌ Failed to save payment phone. Please try again.", env);
+// Checks a parsed SMS against the expected amount and earlier claims, then records the submission.
+// A transaction that already paid for an approval (the user's own included) rejects the proof; a
+// claim someone else submitted but was never approved for becomes a reviewer warning, so pasting a
+// friend's receipt first can't lock the real payer out.
+async function checkPaymentSms(sms: ParsedPaymentSms, userId: number, plan: SubscriptionPlan | undefined, env: Env): Promise<{ reused: boolean; warnings: string[] }> {
+    const warnings: string[] = [];
+
+    const claimResult = await withUserLock(getTransactionLockName(sms.transactionId), null, 'CLAIM_TRANSACTION', env, null, async () => {
+        const claim = await getTransactionClaim(sms.transactionId, env);
+        if (claim && claim.approvedAt) {
+            return { claim, reused: true };
         }
-    } else {
-        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+        await safeKVPut(PAYMENT_TRANSACTION_PREFIX + sms.transactionId, { userId, claimedAt: Date.now() }, env, { expirationTtl: USER_STATE_TTL_SECONDS });
+        return { claim, reused: false };
+    });
+
+    if (claimResult === null) {
+        warnings.push(`Transaction was being checked for another payment at the same time`);
+    } else if (claimResult.reused) {
+        console.warn(`Transaction ${sms.transactionId} from user ${userId} was already approved for ${claimResult.claim?.userId}`);
+        return { reused: true, warnings };
+    } else if (claimResult.claim && claimResult.claim.userId !== userId) {
+        warnings.push(`Transaction was also submitted by User ID ${claimResult.claim.userId} (not approved)`);
     }
+
+    const expectedAmount = plan?.price || await getPaymentAmount(env);
+    if (sms.amount && expectedAmount && parseFloat(sms.amount) !== parseFloat(expectedAmount)) {
+        warnings.push(`Amount mismatch: SMS shows ${sms.amount} ETB, expected ${expectedAmount} ETB`);
+    }
+    if (!sms.amount) {
+        warnings.push(`Amount could not be read from the SMS`);
+    }
+    return { reused: false, warnings };
 }
 
-// Handles adding an admin
-async function handleAddAdmin(chat_id: number, newAdminIdString: string, env: Env) {
-    const validation = validateUserId(newAdminIdString);
+function formatParsedSms(sms: ParsedPaymentSms): string {
+    const provider = sms.provider === 'telebirr' ? 'Telebirr' : 'CBE Birr';
+    const parts = [`${provider} · Txn \`${sms.transactionId}\``];
+    if (sms.amount) parts.push(`${sms.amount} ETB`);
+    if (sms.sender) parts.push(`from ${escapeMarkdown(sms.sender)}`);
+    if (sms.timestamp) parts.push(formatDateTime(sms.timestamp));
+    return parts.join(' · ');
+}
 
-    if (validation.valid) {
-        const trimmedId = newAdminIdString.trim();
-        const currentAdmins = await getAdminIds(env);
+const MAX_PROOF_TEXT_LENGTH = 1000;
+const MIN_PROOF_TEXT_LENGTH = 20; // Shorter texts are chat, not a confirmation SMS
 
-        if (!currentAdmins.includes(trimmedId)) {
-            currentAdmins.push(trimmedId);
-            const success = await setAdminIds(currentAdmins, env);
+// Extracts proof of payment from a user message (photo, document or pasted SMS), or null
+function extractPaymentProof(message: any): PaymentProof | null {
+    if (!message) return null;
+    const caption = message.caption ? message.caption.slice(0, MAX_PROOF_TEXT_LENGTH) : undefined;
 
-            if (success) {
-                await sendTelegramMessage(chat_id, `✅ User ID \`${trimmedId}\` added as admin.`, env);
-            } else {
-                await sendTelegramMessage(chat_id, "❌ Failed to add admin. Please try again.", env);
-            }
-        } else {
-            await sendTelegramMessage(chat_id, `⚠️ User ID \`${trimmedId}\` is already an admin.`, env);
-        }
-    } else {
-        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+    if (Array.isArray(message.photo) && message.photo.length > 0) {
+        // Telegram sends several sizes; the last one is the largest
+        const largest = message.photo[message.photo.length - 1];
+        return { type: 'photo', fileId: largest.file_id, text: caption, receivedAt: Date.now() };
     }
+    if (message.document) {
+        return { type: 'document', fileId: message.document.file_id, fileName: message.document.file_name, text: caption, receivedAt: Date.now() };
+    }
+    const text = (message.text || '').trim();
+    if (text.length >= MIN_PROOF_TEXT_LENGTH && !text.startsWith('/')) {
+        return { type: 'text', text: text.slice(0, MAX_PROOF_TEXT_LENGTH), receivedAt: Date.now() };
+    }
+    return null;
 }
 
-// Handles removing an admin (Called by callback button)
-async function handleRemoveAdminAction(chat_id: number, targetAdminIdString: string, env: Env) {
-    const validation = validateUserId(targetAdminIdString);
+function describePaymentProof(proof?: PaymentProof): string {
+    if (!proof) return 'None';
+    let description = proof.type === 'photo' ? '📷 Receipt screenshot'
+        : proof.type === 'document' ? `📄 Receipt file${proof.fileName ? ` (${escapeMarkdown(proof.fileName)})` : ''}`
+            : proof.type === 'checkout' ? '💳 Online payment (Chapa)'
+            : '💬 Confirmation SMS';
+    if (proof.sms) description += `\n*SMS:* ${formatParsedSms(proof.sms)}`;
+    for (const warning of proof.warnings || []) {
+        description += `\n⚠️ ${escapeMarkdown(warning)}`;
+    }
+    return description;
+}
 
-    if (!validation.valid) {
-        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
-        return;
+// Sends the proof itself to an admin, with the given caption and buttons
+async function sendPaymentProof(chat_id: number, proof: PaymentProof, caption: string, env: Env, reply_markup?: any): Promise<boolean> {
+    const proofText = proof.text ? `\n\n*${proof.type === 'text' ? 'SMS' : 'Caption'}:*\n${escapeMarkdown(proof.text)}` : '';
+    if (proof.type === 'photo' && proof.fileId) {
+        // Captions are limited to 1024 characters
+        return await sendTelegramPhoto(chat_id, proof.fileId, (caption + proofText).slice(0, 1024), env, reply_markup);
     }
+    if (proof.type === 'document' && proof.fileId) {
+        return await sendTelegramDocument(chat_id, proof.fileId, (caption + proofText).slice(0, 1024), env, reply_markup);
+    }
+    return await sendTelegramMessage(chat_id, caption + proofText, env, reply_markup);
+}
 
-    const trimmedId = targetAdminIdString.trim();
+async function getUserState(userId: number, env: Env): Promise<UserPaymentState | null> {
+    const json = await env.KV_BINDING.get(USER_STATE_PREFIX + userId.toString());
+    return json ? JSON.parse(json) : null;
+}
 
-    if (trimmedId === chat_id.toString()) {
-        await sendTelegramMessage(chat_id, "❌ You cannot remove yourself as an admin.", env);
-        return;
-    }
+async function setUserState(userId: number, state: UserPaymentState, env: Env): Promise<void> {
+    const previousState = await getUserState(userId, env);
+    // Set expiry to 7 days
+    await env.KV_BINDING.put(USER_STATE_PREFIX + userId.toString(), JSON.stringify(state), { expirationTtl: USER_STATE_TTL_SECONDS });
+    await updateUserStatusIndex(userId, previousState?.status, state.status, env);
+}
 
-    let currentAdmins = await getAdminIds(env);
-    const initialLength = currentAdmins.length;
+// --- Subscriber Record (durable, no TTL; the source of truth for access) ---
+// One record per user per channel.
+interface SubscriptionRecord {
+    userId: number;
+    channelId: string; // The channel this subscription grants access to
+    status: string; // The SUBSCRIPTION_STATUS constant
+    phone?: string; // Phone number the payment was made from
+    startsAt: number; // When access was granted
+    expiresAt: number; // When access ends
+    inviteLink?: string; // The specific, single-use invite link
+    revokedAt?: number; // Set when access was revoked
+    revokedBy?: string; // Admin ID (or SYSTEM_ACTOR) who revoked access
+    bannedUntil?: number; // Set when access was revoked with a ban: when it ends, or PERMANENT_BAN
+    remindersSent?: number[]; // REMINDER_DAYS_BEFORE_EXPIRY entries already sent this period
+    plan?: SubscriptionPlan; // Plan of the current period (absent when no plans were configured)
+}
 
-    currentAdmins = currentAdmins.filter(id => id !== trimmedId);
+function getSubscriptionKey(userId: number, channelId: string): string {
+    return `${SUBSCRIPTION_PREFIX}${userId}:${channelId}`;
+}
 
-    if (currentAdmins.length < initialLength) {
-        const success = await setAdminIds(currentAdmins, env);
+async function getSubscription(userId: number, channelId: string, env: Env): Promise<SubscriptionRecord | null> {
+    const record = await safeKVGet<SubscriptionRecord | null>(getSubscriptionKey(userId, channelId), env, null);
+    if (record) return record;
 
-        if (success) {
-            const adminDetails = await getUserDisplayDetails(parseInt(trimmedId, 10), env);
-            await sendTelegramMessage(chat_id, `🗑️ Admin *${adminDetails}* (\`${trimmedId}\`) removed.`, env);
-        } else {
-            await sendTelegramMessage(chat_id, "❌ Failed to remove admin. Please try again.", env);
-        }
-    } else {
-        await sendTelegramMessage(chat_id, `⚠️ User ID \`${trimmedId}\` was not found in the admin list.`, env);
+    // Older records only exist for the default channel
+    if (channelId !== await getChannelId(env)) return null;
+
+    // Migrate single-channel records (keyed by user only)
+    const singleChannelKey = SUBSCRIPTION_PREFIX + userId.toString();
+    const singleChannelRecord = await safeKVGet<SubscriptionRecord | null>(singleChannelKey, env, null);
+    if (singleChannelRecord) {
+        return await migrateSingleChannelRecord(singleChannelKey, singleChannelRecord, channelId, env);
     }
+    return null;
 }
 
-// Handles approving a payment 
-async function handleApprovePayment(chat_id: number, targetUserIdString: string, env: Env) {
-    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
-        await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
-        return;
+async function migrateSingleChannelRecord(key: string, record: SubscriptionRecord, channelId: string, env: Env): Promise<SubscriptionRecord> {
+    const migrated = { ...record, channelId: channelId };
+    if (await setSubscription(migrated, env)) {
+        await env.KV_BINDING.delete(key);
     }
-    const targetUserId = parseInt(targetUserIdString, 10);
-    const currentState = await getUserState(targetUserId, env);
+    return migrated;
+}
 
-    if (!currentState || currentState.status !== STATE.PENDING_ADMIN_REVIEW) {
-        await sendTelegramMessage(chat_id, `⚠️ User ID \`${targetUserIdString}\` is not currently pending review.`, env);
-        return;
-    }
+async function setSubscription(record: SubscriptionRecord, env: Env): Promise<boolean> {
+    // No expirationTtl: the record must outlive the subscription so it can be expired and revoked
+    return await safeKVPut(getSubscriptionKey(record.userId, record.channelId), record, env);
+}
 
-    const currentChannelId = await getChannelId(env);
-    if (!currentChannelId) {
-        await sendTelegramMessage(chat_id, "❌ Channel ID is not set. Approval failed.", env);
-        return;
-    }
+// Lists subscriber records under a key prefix, following KV list cursors
+async function listSubscriptions(env: Env, prefix: string = SUBSCRIPTION_PREFIX): Promise<SubscriptionRecord[]> {
+    const records: SubscriptionRecord[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+        const page: KVNamespaceListResult<unknown> = await env.KV_BINDING.list({ prefix, cursor });
+        for (const key of page.keys) {
+            let record = await safeKVGet<SubscriptionRecord | null>(key.name, env, null);
+            if (record && !record.channelId) {
+                const defaultChannelId = await getChannelId(env);
+                if (!defaultChannelId) continue;
+                record = await migrateSingleChannelRecord(key.name, record, defaultChannelId, env);
+            }
+            if (record) records.push(record);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
 
-    // 1. Generate Link
-    const userDetails = await getUserDisplayDetails(targetUserId, env);
-    const inviteLinkObject = await generateSingleUseInviteLink(
-        currentChannelId,
-        `Payment Approved for ${userDetails}`,
-        env
-    );
+    return records;
+}
 
-    if (inviteLinkObject) {
-        const inviteLink = inviteLinkObject.invite_link;
+// ACTIVE and not yet past its end (the daily sweep may not have revoked it yet)
+function isSubscriptionActive(subscription: SubscriptionRecord | null): boolean {
+    return !!subscription && subscription.status === SUBSCRIPTION_STATUS.ACTIVE && subscription.expiresAt > Date.now();
+}
 
-        // 2. Send Link to User
-        const deliveryMessage = `${PAYMENT_APPROVED}\n\n[Click to Join](${inviteLink})`;
-        await sendTelegramMessage(targetUserId, deliveryMessage, env);
+async function getActiveSubscriptions(env: Env): Promise<SubscriptionRecord[]> {
+    const records = await listSubscriptions(env);
+    return records.filter(record => record.status === SUBSCRIPTION_STATUS.ACTIVE);
+}
 
-        // 3. Update State to APPROVED and STORE the link
-        await setUserState(targetUserId, {
-            status: STATE.APPROVED,
-            phone: currentState.phone,
-            timestamp: Date.now(),
-            inviteLink: inviteLink // <--- STORED HERE
-        }, env);
+// All of one user's subscriber records, across channels
+async function getUserSubscriptions(userId: number, env: Env): Promise<SubscriptionRecord[]> {
+    const records = await listSubscriptions(env, `${SUBSCRIPTION_PREFIX}${userId}:`);
 
-        // 4. Notify Admin
-        await sendTelegramMessage(chat_id, `✅ Payment for User ${userDetails} (\`${targetUserIdString}\`) *APPROVED* and invite link sent.`, env);
-    } else {
-        await sendTelegramMessage(chat_id, "❌ Failed to generate invite link. Approval failed. Check bot channel permissions.", env);
+    // Pick up a default-channel record that still needs migrating
+    const defaultChannelId = await getChannelId(env);
+    if (defaultChannelId && !records.some(record => record.channelId === defaultChannelId)) {
+        const defaultRecord = await getSubscription(userId, defaultChannelId, env);
+        if (defaultRecord) records.unshift(defaultRecord);
     }
+    return records;
 }
 
-// Handles rejecting a payment
-async function handleRejectPayment(chat_id: number, targetUserIdString: string, env: Env) {
-    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
-        await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
-        return;
-    }
-    const targetUserId = parseInt(targetUserIdString, 10);
-    const currentState = await getUserState(targetUserId, env);
+// --- Invite Link Owners ---
+// Lets a chat_member update be traced back to the user an invite link was created for
+interface InviteLinkOwner {
+    userId: number;
+    channelId: string;
+    createdAt: number;
+}
 
-    if (!currentState || currentState.status !== STATE.PENDING_ADMIN_REVIEW) {
-        await sendTelegramMessage(chat_id, `⚠️ User ID \`${targetUserIdString}\` is not currently pending review.`, env);
-        return;
-    }
+async function setInviteLinkOwner(inviteLink: string, userId: number, channelId: string, env: Env): Promise<boolean> {
+    const owner: InviteLinkOwner = { userId, channelId, createdAt: Date.now() };
+    return await safeKVPut(INVITE_LINK_PREFIX + inviteLink, owner, env, { expirationTtl: INVITE_LINK_TTL_SECONDS });
+}
 
-    // 1. Notify User of Rejection
-    await sendTelegramMessage(targetUserId, PAYMENT_REJECTED, env);
+async function getInviteLinkOwner(inviteLink: string, env: Env): Promise<InviteLinkOwner | null> {
+    return await safeKVGet<InviteLinkOwner | null>(INVITE_LINK_PREFIX + inviteLink, env, null);
+}
 
-    // 2. Update State to REJECTED 
-    await setUserState(targetUserId, { status: STATE.REJECTED, phone: currentState.phone, timestamp: Date.now() }, env);
+// The channel's join-request link, created on first use and then shared by every approved user.
+// Sharing it further is harmless: requests are only approved for subscribers.
+async function getJoinRequestLink(channelId: string, env: Env): Promise<TelegramResult<TelegramChatInviteLink>> {
+    const stored = await safeKVGet<string | null>(JOIN_REQUEST_LINK_PREFIX + channelId, env, null);
+    if (stored) return { ok: true, result: { invite_link: stored, creates_join_request: true } };
 
-    // 3. Notify Admin
-    const userDetails = await getUserDisplayDetails(targetUserId, env);
-    await sendTelegramMessage(chat_id, `🗑️ Payment for User ${userDetails} (\`${targetUserIdString}\`) *REJECTED*.`, env);
+    const result = await createJoinRequestLink(channelId, "Subscribers (join requests)", env);
+    if (result.ok) await safeKVPut(JOIN_REQUEST_LINK_PREFIX + channelId, result.result.invite_link, env);
+    return result;
 }
 
+// Creates subscriber records for users approved before records existed, if their state is still in KV.
+// This is the only place legacy approvals become records. Approvals always create records now, so one
+// complete pass is enough; the marker skips later sweeps.
+async function migrateLegacyApprovedStates(env: Env): Promise<void> {
+    if (await safeKVGet<number | null>(LEGACY_APPROVED_MIGRATED_KEY, env, null)) return;
+    const defaultChannelId = await getChannelId(env);
+    if (!defaultChannelId) return; // Records need a channel; try again once one is set
+
+    let cursor: string | undefined = undefined;
+    do {
+        const result: KVNamespaceListResult<UserIndexEntry> = await env.KV_BINDING.list<UserIndexEntry>({ prefix: `${USER_STATUS_INDEX_PREFIX}${STATE.APPROVED}:`, cursor });
+        for (const key of result.keys) {
+            const userId = parseInt(key.name.slice(`${USER_STATUS_INDEX_PREFIX}${STATE.APPROVED}:`.length), 10);
+            // Only users with no record on any channel, approved without a plan for another channel
+            if ((await getUserSubscriptions(userId, env)).length > 0) continue;
+            const legacyState = await getUserState(userId, env);
+            if (!legacyState || legacyState.status !== STATE.APPROVED || legacyState.plan?.channelId) continue;
+            await setSubscription({
+                userId: userId,
+                channelId: defaultChannelId,
+                status: SUBSCRIPTION_STATUS.ACTIVE,
+                phone: legacyState.phone,
+                startsAt: legacyState.timestamp,
+                expiresAt: legacyState.timestamp + MONTH_IN_MS,
+                inviteLink: legacyState.inviteLink,
+            }, env);
+        }
+        cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
 
-// Handles revoking access for an APPROVED user
-async function handleRevokeAccess(chat_id: number, targetUserIdString: string, env: Env) {
-    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
-        await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
-        return;
-    }
+    await safeKVPut(LEGACY_APPROVED_MIGRATED_KEY, Date.now(), env);
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatDateTime(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+// --- Audit Log (append-only, no TTL) ---
+interface AuditEntry {
+    actorId: string; // Admin user ID, or SYSTEM_ACTOR
+    action: string; // The AUDIT_ACTION constant
+    targetId?: string; // User ID, channel ID or plan ID the action applied to
+    before?: any; // State before the action
+    after?: any; // State after the action
+    timestamp: number;
+}
+
+// Compact copy stored as key metadata, so pages can be listed without reading every entry
+interface AuditEntrySummary {
+    actorId: string;
+    action: string;
+    targetId?: string;
+    change?: string; // e.g. "PENDING_ADMIN_REVIEW → APPROVED"
+    timestamp: number;
+}
+
+function describeAuditValue(value: any): string {
+    if (value === undefined || value === null) return '—';
+    if (typeof value === 'object') return value.status || JSON.stringify(value).slice(0, 40);
+    return String(value).slice(0, 40);
+}
+
+async function recordAudit(entry: Omit<AuditEntry, 'timestamp'>, env: Env): Promise<void> {
+    const timestamp = Date.now();
+    // Inverted, zero-padded timestamp so KV's lexicographic listing returns the newest entries first
+    const invertedTimestamp = (Number.MAX_SAFE_INTEGER - timestamp).toString().padStart(16, '0');
+    const key = `${AUDIT_LOG_PREFIX}${invertedTimestamp}:${crypto.randomUUID().slice(0, 8)}`;
+
+    const summary: AuditEntrySummary = {
+        actorId: entry.actorId,
+        action: entry.action,
+        targetId: entry.targetId,
+        timestamp: timestamp,
+    };
+    if (entry.before !== undefined || entry.after !== undefined) {
+        summary.change = `${describeAuditValue(entry.before)} → ${describeAuditValue(entry.after)}`;
+    }
+
+    try {
+        await env.KV_BINDING.put(key, JSON.stringify({ ...entry, timestamp }), { metadata: summary });
+    } catch (error) {
+        // Never fail the admin action because the audit write failed
+        console.error(`Audit log write failed for ${entry.action} by ${entry.actorId}:`, error);
+    }
+}
+
+// Returns one page of audit entries (newest first), optionally filtered by actor or target
+async function getAuditLogPage(page: number, filter: { actorId?: string; targetId?: string }, env: Env): Promise<{ entries: AuditEntrySummary[]; hasMore: boolean }> {
+    const matches: AuditEntrySummary[] = [];
+    const needed = (page + 1) * AUDIT_PAGE_SIZE + 1; // One extra to know whether a next page exists
+    let cursor: string | undefined = undefined;
+
+    do {
+        const result: KVNamespaceListResult<AuditEntrySummary> = await env.KV_BINDING.list<AuditEntrySummary>({ prefix: AUDIT_LOG_PREFIX, cursor });
+        for (const key of result.keys) {
+            const summary = key.metadata;
+            if (!summary) continue;
+            if (filter.actorId && summary.actorId !== filter.actorId) continue;
+            if (filter.targetId && summary.targetId !== filter.targetId) continue;
+            matches.push(summary);
+        }
+        cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor && matches.length < needed);
+
+    const start = page * AUDIT_PAGE_SIZE;
+    return {
+        entries: matches.slice(start, start + AUDIT_PAGE_SIZE),
+        hasMore: matches.length > start + AUDIT_PAGE_SIZE,
+    };
+}
+
+// =========================================================
+// 4A. PER-USER LOCK (DURABLE OBJECT)
+// =========================================================
+
+// Approve/reject/revoke read state, call Telegram and then write state. KV has no compare-and-swap,
+// so each of these runs while holding a lock in the target user's Durable Object.
+interface UserLockRequest {
+    op: 'acquire' | 'release';
+    token: string;
+    holder?: string; // Actor ID (admin user ID or SYSTEM_ACTOR)
+    action?: string;
+}
+
+interface UserLockHolder {
+    token: string;
+    holder: string;
+    action: string;
+    expiresAt: number;
+}
+
+// The part of DurableObjectState the lock uses; tests run it on in-memory storage
+export interface UserLockState {
+    storage: {
+        get<T>(key: string): Promise<T | undefined>;
+        put<T>(key: string, value: T): Promise<void>;
+        delete(key: string): Promise<boolean>;
+    };
+}
+
+export class UserLock {
+    private state: UserLockState;
+
+    constructor(state: UserLockState, env: Env) {
+        this.state = state;
+    }
+
+    // The get and put below run without an outgoing fetch in between, so the
+    // Durable Object's input gate makes acquire atomic
+    async fetch(request: Request): Promise<Response> {
+        const body = await request.json() as UserLockRequest;
+        const now = Date.now();
+        const current = await this.state.storage.get<UserLockHolder>('lock');
+
+        if (body.op === 'acquire') {
+            if (current && current.expiresAt > now) {
+                return new Response(JSON.stringify({ acquired: false, holder: current.holder, action: current.action }));
+            }
+            const lock: UserLockHolder = { token: body.token, holder: body.holder || SYSTEM_ACTOR, action: body.action || '', expiresAt: now + USER_LOCK_TTL_MS };
+            await this.state.storage.put('lock', lock);
+            return new Response(JSON.stringify({ acquired: true }));
+        }
+
+        if (current && current.token === body.token) {
+            await this.state.storage.delete('lock');
+        }
+        return new Response(JSON.stringify({ released: true }));
+    }
+}
+
+async function callUserLock(targetUserIdString: string, payload: UserLockRequest, env: Env): Promise<any> {
+    const stub = env.USER_LOCK.get(env.USER_LOCK.idFromName(targetUserIdString));
+    const response = await stub.fetch('https://user-lock/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+    });
+    return await response.json();
+}
+
+// Runs task while holding the target user's lock. If another actor holds it, reports who to the
+// admin (chat_id) and returns onBusy without running the task.
+async function withUserLock<T>(
+    targetUserIdString: string,
+    chat_id: number | null,
+    action: string,
+    env: Env,
+    onBusy: T,
+    task: () => Promise<T>
+): Promise<T> {
+    const token = crypto.randomUUID();
+    const holder = chat_id !== null ? chat_id.toString() : SYSTEM_ACTOR;
+
+    let lockResult: { acquired: boolean; holder?: string; action?: string };
+    try {
+        lockResult = await callUserLock(targetUserIdString, { op: 'acquire', token, holder, action }, env);
+    } catch (error) {
+        console.error(`Failed to acquire lock for user ${targetUserIdString}:`, error);
+        if (chat_id !== null) await sendTelegramMessage(chat_id, "❌ Could not lock this user for processing. Please try again.", env);
+        return onBusy;
+    }
+
+    if (!lockResult.acquired) {
+        if (chat_id !== null) {
+            const holderName = await describeActor(lockResult.holder || SYSTEM_ACTOR, env);
+            await sendTelegramMessage(chat_id, `⏳ User \`${targetUserIdString}\` is being processed right now (${lockResult.action}) by ${holderName}. Nothing was changed.`, env);
+        }
+        return onBusy;
+    }
+
+    try {
+        return await task();
+    } finally {
+        try {
+            await callUserLock(targetUserIdString, { op: 'release', token }, env);
+        } catch (error) {
+            // The lock expires on its own after USER_LOCK_TTL_MS
+            console.error(`Failed to release lock for user ${targetUserIdString}:`, error);
+        }
+    }
+}
+
+// Display name for an audit/lock actor ID
+async function describeActor(actorId: string, env: Env): Promise<string> {
+    if (!/^\d+$/.test(actorId)) return actorId;
+    const details = await getUserDisplayDetails(parseInt(actorId, 10), env);
+    return `${details} (\`${actorId}\`)`;
+}
+
+// =========================================================
+// 5. CORE ACTION HANDLERS
+// =========================================================
+
+// Handles setting the private channel ID
+async function handleSetChannelId(chat_id: number, channelId: string, env: Env) {
+    const validation = validateChannelId(channelId);
+
+    if (validation.valid) {
+        const previousChannelId = await getChannelId(env);
+        const success = await setChannelId(channelId.trim(), env);
+        if (success) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_CHANNEL_ID, before: previousChannelId, after: channelId.trim() }, env);
+            const responseMessage = `✅ Private Channel ID set to: \`${channelId.trim()}\``;
+            await sendTelegramMessage(chat_id, responseMessage, env);
+        } else {
+            await sendTelegramMessage(chat_id, "❌ Failed to save Channel ID. Please try again.", env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+    }
+}
+
+// Handles setting the payment amount
+async function handleSetPaymentAmount(chat_id: number, amount: string, env: Env) {
+    const validation = validatePaymentAmount(amount);
+
+    if (validation.valid) {
+        const previousAmount = await getPaymentAmount(env);
+        const success = await setPaymentAmount(amount.trim(), env);
+        if (success) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_PAYMENT_AMOUNT, before: previousAmount, after: amount.trim() }, env);
+            await sendTelegramMessage(chat_id, `✅ Payment amount set to: \`${amount.trim()}\` ETB.`, env);
+        } else {
+            await sendTelegramMessage(chat_id, "❌ Failed to save payment amount. Please try again.", env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+    }
+}
+
+// Handles setting the payment phone number
+async function handleSetPaymentPhone(chat_id: number, phone: string, env: Env) {
+    const validation = validateEthiopianPhone(phone);
+
+    if (validation.valid && validation.normalized) {
+        const previousPhone = await getPaymentPhone(env);
+        const success = await setPaymentPhone(validation.normalized, env);
+        if (success) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_PAYMENT_PHONE, before: previousPhone, after: validation.normalized }, env);
+            await sendTelegramMessage(chat_id, `✅ Payment phone number set to: \`${validation.normalized}\`.`, env);
+        } else {
+            await sendTelegramMessage(chat_id, "❌ Failed to save payment phone. Please try again.", env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+    }
+}
+
+// Handles registering a channel ("ChannelID | Name")
+async function handleAddChannel(chat_id: number, input: string, env: Env) {
+    const parts = input.split('|').map(part => part.trim());
+    if (parts.length !== 2 || !parts[1]) {
+        await sendTelegramMessage(chat_id, "❌ Invalid channel. Use format: ChannelID | Name (e.g. -1001234567890 | VIP)", env);
+        return;
+    }
+
+    const [channelId, name] = parts;
+    const validation = validateChannelId(channelId);
+    if (!validation.valid) {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+        return;
+    }
+
+    const channels = await getRegisteredChannels(env);
+    const existing = channels.find(channel => channel.id === channelId);
+    const previousName = existing?.name;
+    if (existing) {
+        // Re-adding a known channel renames it
+        existing.name = name;
+    } else {
+        channels.push({ id: channelId, name: name });
+    }
+
+    const success = await setRegisteredChannels(channels, env);
+    if (success) {
+        await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.ADD_CHANNEL, targetId: channelId, before: previousName, after: name }, env);
+        await sendTelegramMessage(chat_id, `✅ Channel *${escapeMarkdown(name)}* (\`${channelId}\`) ${existing ? 'renamed' : 'added'}.`, env);
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to save channel. Please try again.", env);
+    }
+}
+
+// Handles removing a registered channel (Called by callback button)
+async function handleRemoveChannel(chat_id: number, channelId: string, env: Env) {
+    if (channelId === await getChannelId(env)) {
+        await sendTelegramMessage(chat_id, "❌ The default channel cannot be removed. Change it with *Set Channel ID* instead.", env);
+        return;
+    }
+
+    const channels = await getRegisteredChannels(env);
+    const remainingChannels = channels.filter(channel => channel.id !== channelId);
+    if (remainingChannels.length === channels.length) {
+        await sendTelegramMessage(chat_id, "⚠️ Channel not found. It may have already been removed.", env);
+        return;
+    }
+
+    // Plans for the channel would otherwise sell access to a channel the bot no longer manages
+    const plans = await getPlans(env);
+    const remainingPlans = plans.filter(plan => plan.channelId !== channelId);
+
+    const success = await setRegisteredChannels(remainingChannels, env) && await setPlans(remainingPlans, env);
+    if (success) {
+        const removedChannel = channels.find(channel => channel.id === channelId);
+        await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.REMOVE_CHANNEL, targetId: channelId, before: removedChannel?.name, after: null }, env);
+        const removedPlans = plans.length - remainingPlans.length;
+        await sendTelegramMessage(chat_id, `🗑️ Channel \`${channelId}\` removed along with *${removedPlans}* plan(s). Existing subscribers keep their records until they expire.`, env);
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to remove channel. Please try again.", env);
+    }
+}
+
+// Handles adding a subscription plan ("Name | Days | Price") for a channel (default channel when absent)
+async function handleAddPlan(chat_id: number, input: string, env: Env, channelId?: string) {
+    const validation = validatePlanInput(input);
+
+    if (validation.valid && validation.name && validation.durationDays && validation.price) {
+        const plans = await getPlans(env);
+        if (plans.some(plan => plan.channelId === channelId && plan.name.toLowerCase() === validation.name!.toLowerCase())) {
+            await sendTelegramMessage(chat_id, `⚠️ A plan named *${escapeMarkdown(validation.name)}* already exists.`, env);
+            return;
+        }
+
+        const plan: SubscriptionPlan = {
+            id: Date.now().toString(36),
+            name: validation.name,
+            durationDays: validation.durationDays,
+            price: validation.price,
+            channelId: channelId,
+        };
+        plans.push(plan);
+
+        const success = await setPlans(plans, env);
+        if (success) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.ADD_PLAN, targetId: plan.id, before: null, after: plan }, env);
+            await sendTelegramMessage(chat_id, `✅ Plan added: *${escapeMarkdown(formatPlan(plan, await getChannels(env)))}*`, env);
+        } else {
+            await sendTelegramMessage(chat_id, "❌ Failed to save plan. Please try again.", env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+    }
+}
+
+// Handles removing a subscription plan (Called by callback button)
+async function handleRemovePlan(chat_id: number, planId: string, env: Env) {
+    const plans = await getPlans(env);
+    const remainingPlans = plans.filter(plan => plan.id !== planId);
+
+    if (remainingPlans.length === plans.length) {
+        await sendTelegramMessage(chat_id, "⚠️ Plan not found. It may have already been removed.", env);
+        return;
+    }
+
+    const success = await setPlans(remainingPlans, env);
+    if (success) {
+        const removedPlan = plans.find(plan => plan.id === planId)!;
+        await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.REMOVE_PLAN, targetId: planId, before: removedPlan, after: null }, env);
+        // Pending users keep the snapshot of the plan they chose
+        await sendTelegramMessage(chat_id, `🗑️ Plan *${escapeMarkdown(removedPlan.name)}* removed.`, env);
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to remove plan. Please try again.", env);
+    }
+}
+
+// Handles overriding one catalog text for one locale. Input: "KEY | locale | text"
+async function handleSetTextOverride(chat_id: number, input: string, env: Env) {
+    const validation = validateTextOverrideInput(input);
+    if (!validation.valid || !validation.key || !validation.locale || !validation.text) {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+        return;
+    }
+    await proposeTemplateText(chat_id, { key: validation.key, locale: validation.locale, text: validation.text }, env);
+}
+
+// Handles the new text for a template opened with "✏️ Edit" (data is "KEY locale")
+async function handleEditTemplate(chat_id: number, data: string | undefined, text: string, env: Env) {
+    const [key = '', locale = ''] = (data || '').split(' ');
+    if (!isMessageKey(key) || !isLocale(locale)) {
+        await sendTelegramMessage(chat_id, "🚫 State error: I forgot which template you were editing. Please open it again.", env);
+        return;
+    }
+
+    const validation = validateTemplateText(key, text);
+    if (!validation.valid) {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}\n\nNothing was saved.`, env, { inline_keyboard: [[{ text: "✏️ Try Again", callback_data: `/template_edit ${key} ${locale}` }, { text: "⬅️ Back", callback_data: `/template ${key} ${locale}` }]] });
+        return;
+    }
+    await proposeTemplateText(chat_id, { key, locale, text }, env);
+}
+
+// Keeps a validated text as a draft and shows it the way users will see it. Telegram itself has
+// the last word on the Markdown: if the preview can't be sent, the draft is dropped.
+async function proposeTemplateText(chat_id: number, draft: TemplateDraft, env: Env) {
+    await setTemplateDraft(chat_id, draft, env);
+    await sendTelegramMessage(chat_id, `👁 *Preview* of \`${draft.key}\` (${LOCALE_NAMES[draft.locale]}) with example values:`, env);
+
+    const markup = {
+        inline_keyboard: [
+            [{ text: "✅ Save", callback_data: "/template_save" }, { text: "✏️ Edit Again", callback_data: `/template_edit ${draft.key} ${draft.locale}` }],
+            [{ text: "❌ Discard", callback_data: `/template ${draft.key} ${draft.locale}` }]
+        ]
+    };
+    const shown = await sendTelegramMessage(chat_id, formatText(draft.text, TEMPLATE_SAMPLE_VALUES), env, markup);
+    if (!shown) {
+        await clearTemplateDraft(chat_id, env);
+        await sendTelegramMessage(chat_id, "❌ Telegram could not display this text (broken Markdown). Nothing was saved.", env);
+    }
+}
+
+// Handles "✅ Save" under a preview
+async function handleSaveTemplateDraft(chat_id: number, env: Env) {
+    const draft = await getTemplateDraft(chat_id, env);
+    if (!draft) {
+        await sendTelegramMessage(chat_id, "⚠️ There is no draft to save. It may have expired; please edit the text again.", env);
+        return;
+    }
+
+    const { success, before } = await setTextOverride(draft.key, draft.locale, draft.text, env);
+    if (success) {
+        await clearTemplateDraft(chat_id, env);
+        await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_TEXT, targetId: `${draft.key}:${draft.locale}`, before, after: draft.text }, env);
+        await sendTelegramMessage(chat_id, `✅ Text \`${draft.key}\` (${LOCALE_NAMES[draft.locale]}) saved. Users see the new text right away.`, env);
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to save the text. Please try again.", env);
+    }
+}
+
+// Handles resetting a text to the built-in default (Called by callback button)
+async function handleResetTextOverride(chat_id: number, locale: string, key: string, env: Env) {
+    const overrides = await getTextOverrides(env);
+    if (!isLocale(locale) || !isMessageKey(key) || overrides[locale]?.[key] === undefined) {
+        await sendTelegramMessage(chat_id, "⚠️ Override not found. It may have already been reset.", env);
+        return;
+    }
+
+    const { success, before } = await setTextOverride(key, locale, null, env);
+    if (success) {
+        await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.RESET_TEXT, targetId: `${key}:${locale}`, before, after: null }, env);
+        await sendTelegramMessage(chat_id, `🗑️ Text \`${key}\` (${LOCALE_NAMES[locale]}) reset to the default.`, env);
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to reset the text. Please try again.", env);
+    }
+}
+
+// Handles adding an admin, or changing an existing admin's role. Input: "<UserID> [owner|reviewer|support]"
+async function handleAddAdmin(chat_id: number, input: string, env: Env) {
+    const [newAdminIdString = '', roleInput] = input.trim().split(/\s+/);
+    const validation = validateUserId(newAdminIdString);
+    const role = (roleInput || ADMIN_ROLE.SUPPORT).toLowerCase();
+
+    if (!validation.valid) {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+        return;
+    }
+    if (!isValidAdminRole(role)) {
+        await sendTelegramMessage(chat_id, `❌ Unknown role \`${escapeMarkdown(role)}\`. Use owner, reviewer or support.`, env);
+        return;
+    }
+
+    const trimmedId = newAdminIdString.trim();
+    const currentAdmins = await getAdmins(env);
+    const existing = currentAdmins.find(admin => admin.id === trimmedId);
+
+    if (existing && existing.role === role) {
+        await sendTelegramMessage(chat_id, `⚠️ User ID \`${trimmedId}\` is already an admin with role *${role}*.`, env);
+        return;
+    }
+    if (existing && trimmedId === chat_id.toString()) {
+        await sendTelegramMessage(chat_id, "❌ You cannot change your own role.", env);
+        return;
+    }
+
+    const updatedAdmins = existing
+        ? currentAdmins.map(admin => admin.id === trimmedId ? { ...admin, role } : admin)
+        : [...currentAdmins, { id: trimmedId, role }];
+    const success = await setAdmins(updatedAdmins, env);
+
+    if (success) {
+        if (existing) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.CHANGE_ADMIN_ROLE, targetId: trimmedId, before: existing.role, after: role }, env);
+            await sendTelegramMessage(chat_id, `✅ Admin \`${trimmedId}\` is now *${role}* (was ${existing.role}).`, env);
+        } else {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.ADD_ADMIN, targetId: trimmedId, before: null, after: role }, env);
+            await sendTelegramMessage(chat_id, `✅ User ID \`${trimmedId}\` added as *${role}*.`, env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, "❌ Failed to add admin. Please try again.", env);
+    }
+}
+
+// Handles removing an admin (Called by callback button)
+async function handleRemoveAdminAction(chat_id: number, targetAdminIdString: string, env: Env) {
+    const validation = validateUserId(targetAdminIdString);
+
+    if (!validation.valid) {
+        await sendTelegramMessage(chat_id, `❌ ${validation.error}`, env);
+        return;
+    }
+
+    const trimmedId = targetAdminIdString.trim();
+
+    if (trimmedId === chat_id.toString()) {
+        await sendTelegramMessage(chat_id, "❌ You cannot remove yourself as an admin.", env);
+        return;
+    }
+
+    const currentAdmins = await getAdmins(env);
+    const removedAdmin = currentAdmins.find(admin => admin.id === trimmedId);
+
+    if (removedAdmin) {
+        const success = await setAdmins(currentAdmins.filter(admin => admin.id !== trimmedId), env);
+
+        if (success) {
+            await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.REMOVE_ADMIN, targetId: trimmedId, before: removedAdmin.role, after: null }, env);
+            const adminDetails = await getUserDisplayDetails(parseInt(trimmedId, 10), env);
+            await sendTelegramMessage(chat_id, `🗑️ Admin *${adminDetails}* (\`${trimmedId}\`) removed.`, env);
+        } else {
+            await sendTelegramMessage(chat_id, "❌ Failed to remove admin. Please try again.", env);
+        }
+    } else {
+        await sendTelegramMessage(chat_id, `⚠️ User ID \`${trimmedId}\` was not found in the admin list.`, env);
+    }
+}
+
+// Handles approving a payment 
+// chat_id is the admin to report to; pass null (automatic verification) to run without an admin chat.
+// actorId defaults to chat_id and is what the audit log and reviewedBy record.
+async function handleApprovePayment(chat_id: number | null, targetUserIdString: string, env: Env, actorId?: string): Promise<boolean> {
+    return await withUserLock(targetUserIdString, chat_id, AUDIT_ACTION.APPROVE, env, false, () => approvePayment(chat_id, targetUserIdString, env, actorId));
+}
+
+// Tells the admin who lost a race (or pressed a stale button) who already handled the payment
+async function getNotPendingMessage(targetUserIdString: string, currentState: UserPaymentState | null, env: Env): Promise<string> {
+    if (currentState && currentState.reviewedBy && (currentState.status === STATE.APPROVED || currentState.status === STATE.REJECTED)) {
+        const verb = currentState.status === STATE.APPROVED ? 'approved' : 'rejected';
+        const reviewer = await describeActor(currentState.reviewedBy, env);
+        return `⚠️ User ID \`${targetUserIdString}\` was already *${verb}* by ${reviewer}.`;
+    }
+    return `⚠️ User ID \`${targetUserIdString}\` is not currently pending review.`;
+}
+
+async function approvePayment(chat_id: number | null, targetUserIdString: string, env: Env, actorId?: string): Promise<boolean> {
+    const notifyAdmin = async (text: string) => {
+        if (chat_id !== null) await sendTelegramMessage(chat_id, text, env);
+    };
+    const reviewer = actorId || (chat_id !== null ? chat_id.toString() : SYSTEM_ACTOR);
+
+    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
+        await notifyAdmin("❌ Invalid User ID.");
+        return false;
+    }
+    const targetUserId = parseInt(targetUserIdString, 10);
+    const currentState = await getUserState(targetUserId, env);
+
+    // The transaction in a pasted SMS can pay for one approval only; approving is what makes its claim final
+    const claimTransaction = async (): Promise<boolean> => {
+        const sms = currentState?.proof?.sms;
+        if (!sms) return true;
+        const claimResult = await claimApprovedTransaction(sms.transactionId, targetUserId, env);
+        if (!claimResult.ok) {
+            await notifyAdmin(claimResult.claim
+                ? `❌ Transaction \`${sms.transactionId}\` was already approved for User ID \`${claimResult.claim.userId}\`. Approval failed.`
+                : `⚠️ Transaction \`${sms.transactionId}\` is being approved for another payment right now. Please try again.`);
+        }
+        return claimResult.ok;
+    };
+
+    if (!currentState || currentState.status !== STATE.PENDING_ADMIN_REVIEW) {
+        await notifyAdmin(await getNotPendingMessage(targetUserIdString, currentState, env));
+        return false;
+    }
+
+    // The plan decides which channel this payment is for
+    const currentChannelId = await getPaymentChannelId(currentState, env);
+    if (!currentChannelId) {
+        await notifyAdmin("❌ Channel ID is not set. Approval failed.");
+        return false;
+    }
+
+    // Renewal: extend the active subscription, keeping the member in the channel and the existing link
+    if (currentState.isRenewal) {
+        const subscription = await getSubscription(targetUserId, currentChannelId, env);
+        if (subscription && subscription.status === SUBSCRIPTION_STATUS.ACTIVE) {
+            if (!await claimTransaction()) return false;
+            const now = Date.now();
+            const expiresAt = Math.max(now, subscription.expiresAt) + getPlanDurationMs(currentState.plan);
+            await setSubscription({ ...subscription, phone: currentState.phone, expiresAt: expiresAt, remindersSent: [], plan: currentState.plan }, env);
+            await setUserState(targetUserId, { status: STATE.APPROVED, phone: currentState.phone, timestamp: now, reviewedBy: reviewer }, env);
+            await recordAudit({ actorId: reviewer, action: AUDIT_ACTION.APPROVE_RENEWAL, targetId: targetUserIdString, before: { status: currentState.status, expiresAt: subscription.expiresAt }, after: { status: STATE.APPROVED, expiresAt } }, env);
+
+            const t = await getUserTexts(targetUserId, env);
+            const daysLeft = Math.ceil((expiresAt - now) / DAY_IN_MS);
+            const delivery = await trySendTelegramMessage(targetUserId, t('RENEWAL_APPROVED', { date: formatDate(expiresAt), days_left: daysLeft }), env);
+
+            const userDetails = await getUserDisplayDetails(targetUserId, env);
+            const deliveryNote = delivery.ok ? '' : `\n⚠️ The user was not notified: ${describeTelegramError(delivery.error)}.`;
+            await notifyAdmin(`✅ Renewal for User ${userDetails} (\`${targetUserIdString}\`) *APPROVED*. Access extended to ${formatDate(expiresAt)}.${deliveryNote}`);
+            return true;
+        }
+        // The subscription lapsed while the renewal was pending: approve it as a new sign-up
+    }
+
+    // A ban kept from an earlier revocation would stop the new link from working, so approving lifts it
+    const previousSubscription = await getSubscription(targetUserId, currentChannelId, env);
+    if (previousSubscription?.bannedUntil !== undefined && (previousSubscription.bannedUntil === PERMANENT_BAN || previousSubscription.bannedUntil > Date.now())) {
+        const unbanResult = await unbanChatMember(currentChannelId, targetUserId, env);
+        await notifyAdmin(unbanResult.ok
+            ? `ℹ️ User ID \`${targetUserIdString}\` was banned from channel \`${currentChannelId}\`; the ban has been lifted.`
+            : `⚠️ User ID \`${targetUserIdString}\` is banned from channel \`${currentChannelId}\` and the ban could not be lifted (${describeTelegramError(unbanResult.error)}). The invite link won't work until they are unbanned.`);
+    }
+
+    // 1. Generate Link: a single-use link, or in join-request mode the channel's shared join-request link
+    const userDetails = await getUserDisplayDetails(targetUserId, env);
+    const joinByRequest = await getAccessMode(env) === ACCESS_MODE.JOIN_REQUEST;
+    const inviteLinkResult = joinByRequest
+        ? await getJoinRequestLink(currentChannelId, env)
+        : await generateSingleUseInviteLink(currentChannelId, `Payment Approved for ${userDetails}`, env);
+
+    if (inviteLinkResult.ok) {
+        const inviteLink = inviteLinkResult.result.invite_link;
+        if (!await claimTransaction()) {
+            if (!joinByRequest) await revokeChatInviteLink(currentChannelId, inviteLink, env); // Nobody received it
+            return false;
+        }
+        if (!joinByRequest) await setInviteLinkOwner(inviteLink, targetUserId, currentChannelId, env);
+
+        // 2. Send Link to User
+        const channels = await getChannels(env);
+        const t = await getUserTexts(targetUserId, env);
+        const channelNote = channels.length > 1 ? `\n${t('CHANNEL_LINE', { channel: getChannelName(channels, currentChannelId) })}` : '';
+        const deliveryMessage = t(joinByRequest ? 'PAYMENT_APPROVED_JOIN_REQUEST' : 'PAYMENT_APPROVED', { channel_line: channelNote, invite_link: inviteLink });
+        const delivery = await trySendTelegramMessage(targetUserId, deliveryMessage, env);
+
+        // 3. Create the durable subscriber record (STORES the link) and update the conversational state
+        const now = Date.now();
+        await setSubscription({
+            userId: targetUserId,
+            channelId: currentChannelId,
+            status: SUBSCRIPTION_STATUS.ACTIVE,
+            phone: currentState.phone,
+            startsAt: now,
+            expiresAt: now + getPlanDurationMs(currentState.plan),
+            inviteLink: joinByRequest ? undefined : inviteLink, // The shared join-request link must never be revoked for one user
+            plan: currentState.plan
+        }, env);
+        await setUserState(targetUserId, { status: STATE.APPROVED, phone: currentState.phone, timestamp: now, reviewedBy: reviewer }, env);
+        await recordAudit({ actorId: reviewer, action: AUDIT_ACTION.APPROVE, targetId: targetUserIdString, before: currentState, after: { status: STATE.APPROVED, channelId: currentChannelId } }, env);
+
+        // 4. Notify Admin. The link is stored either way; Send Invite can deliver a new one later.
+        if (delivery.ok) {
+            await notifyAdmin(`✅ Payment for User ${userDetails} (\`${targetUserIdString}\`) *APPROVED* and invite link sent.`);
+        } else {
+            await notifyAdmin(`✅ Payment for User ${userDetails} (\`${targetUserIdString}\`) *APPROVED*, but the invite link could not be delivered: ${describeTelegramError(delivery.error)}.`);
+        }
+        return true;
+    } else {
+        await notifyAdmin(`❌ Failed to generate invite link: ${describeTelegramError(inviteLinkResult.error)}. Approval failed.`);
+        return false;
+    }
+}
+
+// Handles rejecting a payment
+async function handleRejectPayment(chat_id: number, targetUserIdString: string, env: Env, reason?: string) {
+    await withUserLock(targetUserIdString, chat_id, AUDIT_ACTION.REJECT, env, undefined, () => rejectPayment(chat_id, targetUserIdString, env, reason));
+}
+
+// Reason picker shown when an admin presses "❌ Reject"
+function getRejectReasonMenu(targetUserIdString: string) {
+    const buttons: any[] = Object.entries(REJECTION_REASONS).map(([key, messageKey]) =>
+        [{ text: MESSAGES_EN[messageKey], callback_data: `/reject_reason ${targetUserIdString} ${key}` }]
+    );
+    buttons.push([{ text: "✍️ Other reason", callback_data: `/reject_custom ${targetUserIdString}` }]);
+    buttons.push([{ text: "❌ Cancel", callback_data: "/review_payments" }]);
+    return {
+        text: `❌ *Reject payment of User ID* \`${targetUserIdString}\`\n\nChoose the reason the user will see:`,
+        markup: { inline_keyboard: buttons },
+    };
+}
+
+async function rejectPayment(chat_id: number, targetUserIdString: string, env: Env, reason?: string) {
+    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
+        await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
+        return;
+    }
+    const targetUserId = parseInt(targetUserIdString, 10);
+    const currentState = await getUserState(targetUserId, env);
+
+    if (!currentState || currentState.status !== STATE.PENDING_ADMIN_REVIEW) {
+        await sendTelegramMessage(chat_id, await getNotPendingMessage(targetUserIdString, currentState, env), env);
+        return;
+    }
+
+    // 1. Notify User of Rejection (with a Resubmit button when there is a reason to act on)
+    const t = await getUserTexts(targetUserId, env);
+    if (reason) {
+        const markup = { inline_keyboard: [[{ text: t('BUTTON_RESUBMIT'), callback_data: "/resubmit" }]] };
+        await sendTelegramMessage(targetUserId, `${t('PAYMENT_REJECTED_WITH_REASON')}\n\n${t('REASON_LINE', { reason: escapeMarkdown(reason) })}\n\n${t('RESUBMIT_HINT')}`, env, markup);
+    } else {
+        await sendTelegramMessage(targetUserId, t('PAYMENT_REJECTED'), env);
+    }
+
+    // 2. Update State to REJECTED (keeping the plan so a resubmission pays for the same one)
+    await setUserState(targetUserId, {
+        status: STATE.REJECTED,
+        phone: currentState.phone,
+        timestamp: Date.now(),
+        reviewedBy: chat_id.toString(),
+        isRenewal: currentState.isRenewal,
+        renewChannelId: currentState.renewChannelId,
+        plan: currentState.plan,
+        rejectionReason: reason
+    }, env);
+    await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.REJECT, targetId: targetUserIdString, before: currentState, after: { status: STATE.REJECTED, reason } }, env);
+    if (currentState.proof?.sms) await releaseTransactionClaim(currentState.proof.sms.transactionId, targetUserId, env);
+
+    // 3. Notify Admin
+    const userDetails = await getUserDisplayDetails(targetUserId, env);
+    const reasonNote = reason ? `\n*Reason:* ${escapeMarkdown(reason)}` : '';
+    await sendTelegramMessage(chat_id, `🗑️ Payment for User ${userDetails} (\`${targetUserIdString}\`) *REJECTED*.${reasonNote}`, env);
+}
+
+// Handles the "Resubmit" button after a rejection: back to the phone number step for the same plan
+async function handleResubmit(chat_id: number, sender_id: number, env: Env) {
+    const t = await getUserTexts(sender_id, env);
+    const currentState = await getUserState(sender_id, env);
+    if (!currentState || currentState.status !== STATE.REJECTED || !currentState.rejectionReason) {
+        await sendTelegramMessage(chat_id, t('RESUBMIT_NOTHING'), env);
+        return;
+    }
+
+    await setUserState(sender_id, { status: STATE.WAITING_FOR_PHONE, timestamp: Date.now(), isRenewal: currentState.isRenewal, renewChannelId: currentState.renewChannelId, plan: currentState.plan }, env);
+    const channels = await getChannels(env);
+    const reminder = await getPaymentReminderText(env, t, currentState.plan, channels);
+    await sendTelegramMessage(chat_id, `${t('RESUBMIT_TITLE')}${reminder}`, env, getCheckoutMarkup(env, t));
+}
+
+
+// Handles revoking access for an APPROVED user in one channel (the default channel when none is given).
+// chat_id is the admin to report each step to; pass null (scheduled sweep) to run silently.
+// Without banDays the user is kicked (banned, then unbanned) and can rejoin after paying again;
+// with it they stay banned for that many days, or for good with PERMANENT_BAN.
+async function handleRevokeAccess(chat_id: number | null, targetUserIdString: string, env: Env, targetChannelId?: string, banDays?: number): Promise<boolean> {
+    return await withUserLock(targetUserIdString, chat_id, AUDIT_ACTION.REVOKE, env, false, () => revokeAccess(chat_id, targetUserIdString, env, targetChannelId, banDays));
+}
+
+// Duration picker shown when an admin presses "⛔ Ban" in the approved users list
+function getBanDurationMenu(targetUserIdString: string, channelId: string) {
+    const buttons: any[] = [BAN_DURATION_DAYS.map(days =>
+        ({ text: `${days} day${days === 1 ? '' : 's'}`, callback_data: `/ban_access ${targetUserIdString} ${days} ${channelId}` })
+    )];
+    buttons.push([{ text: "♾️ Permanently", callback_data: `/ban_access ${targetUserIdString} ${PERMANENT_BAN} ${channelId}` }]);
+    buttons.push([{ text: "❌ Cancel", callback_data: "/list_approved" }]);
+    return {
+        text: `⛔ *Ban User ID* \`${targetUserIdString}\`\n\nAccess is revoked and the user is removed from channel \`${channelId}\`. Choose how long they stay banned:`,
+        markup: { inline_keyboard: buttons },
+    };
+}
+
+async function revokeAccess(chat_id: number | null, targetUserIdString: string, env: Env, targetChannelId?: string, banDays?: number): Promise<boolean> {
+    const notifyAdmin = async (text: string) => {
+        if (chat_id !== null) await sendTelegramMessage(chat_id, text, env);
+    };
+
+    if (!targetUserIdString || !/^\d+$/.test(targetUserIdString)) {
+        await notifyAdmin("❌ Invalid User ID.");
+        return false;
+    }
     const targetUserId = parseInt(targetUserIdString, 10);
+
+    const currentChannelId = targetChannelId || await getChannelId(env);
+    if (!currentChannelId) {
+        await notifyAdmin("❌ Channel ID is not set. Cannot revoke access.");
+        return false;
+    }
+
+    const subscription = await getSubscription(targetUserId, currentChannelId, env);
+    if (subscription && subscription.status === SUBSCRIPTION_STATUS.REVOKED && subscription.revokedBy) {
+        const revoker = await describeActor(subscription.revokedBy, env);
+        await notifyAdmin(`⚠️ Access for User ID \`${targetUserIdString}\` in channel \`${currentChannelId}\` was already *revoked* by ${revoker}.`);
+        return false;
+    }
+    if (!subscription || subscription.status !== SUBSCRIPTION_STATUS.ACTIVE) {
+        await notifyAdmin(`⚠️ User ID \`${targetUserIdString}\` is not currently \`APPROVED\` in channel \`${currentChannelId}\`. Revocation failed.`);
+        return false;
+    }
+
+    // Each step is reported on its own line, so the admin sees exactly what Telegram accepted
+    const steps: string[] = [];
+
+    // 1. Revoke the invite link, so it can't be used to rejoin
+    const storedLink = subscription.inviteLink;
+    if (storedLink) {
+        const revokeResult = await revokeChatInviteLink(currentChannelId, storedLink, env);
+        if (revokeResult.ok) {
+            steps.push(`✅ Invite link revoked.`);
+        } else if (revokeResult.error.kind === TELEGRAM_ERROR.NOT_ENOUGH_RIGHTS) {
+            steps.push(`⚠️ Invite link not revoked: the bot needs the 'Invite users via link' right in the channel.`);
+        } else {
+            steps.push(`⚠️ Invite link not revoked (${describeTelegramError(revokeResult.error)}). It may have already been consumed or expired.`);
+        }
+    } else {
+        steps.push(`ℹ️ No personal invite link to revoke (joined by request, or approved before links were stored).`);
+    }
+
+    // 2. Remove the user from the channel. unbanChatMember alone doesn't reliably remove members,
+    // so the user is banned first and, for a plain kick, unbanned right after.
+    const now = Date.now();
+    const bannedUntil = banDays === undefined ? undefined
+        : banDays === PERMANENT_BAN ? PERMANENT_BAN : now + banDays * DAY_IN_MS;
+    const banResult = await banChatMember(currentChannelId, targetUserId, env, bannedUntil ? Math.floor(bannedUntil / 1000) : undefined);
+    if (banResult.ok) {
+        steps.push(`✅ Removed from channel \`${currentChannelId}\`.`);
+    } else if (banResult.error.kind === TELEGRAM_ERROR.NOT_ENOUGH_RIGHTS) {
+        steps.push(`⚠️ Not removed: the bot needs the 'Ban users' right in channel \`${currentChannelId}\`.`);
+    } else {
+        steps.push(`⚠️ Not removed from channel: ${describeTelegramError(banResult.error)}.`);
+    }
+
+    // 3. For a kick, lift the ban right away; a chosen ban is kept
+    if (banResult.ok) {
+        if (bannedUntil === undefined) {
+            const unbanResult = await unbanChatMember(currentChannelId, targetUserId, env);
+            if (unbanResult.ok) {
+                steps.push(`✅ Ban lifted: the user can rejoin after paying again.`);
+            } else {
+                steps.push(`⚠️ Ban not lifted (${describeTelegramError(unbanResult.error)}): the user can't rejoin until unbanned.`);
+            }
+        } else if (bannedUntil === PERMANENT_BAN) {
+            steps.push(`⛔ Banned *permanently*.`);
+        } else {
+            steps.push(`⛔ Banned until ${formatDateTime(bannedUntil)} UTC.`);
+        }
+    }
+
+    // 4. Notify User of Revocation
+    const channels = await getChannels(env);
+    const t = await getUserTexts(targetUserId, env);
+    const channelNote = channels.length > 1 ? `\n\n${t('CHANNEL_LINE', { channel: getChannelName(channels, currentChannelId) })}` : '';
+    const delivery = await trySendTelegramMessage(targetUserId, t('ACCESS_REVOKED') + channelNote, env);
+    steps.push(delivery.ok ? `✅ User notified.` : `⚠️ User not notified: ${describeTelegramError(delivery.error)}.`);
+
+    // 5. Mark the subscriber record REVOKED and set the conversational state to REJECTED
+    // (unless the user is in the middle of another payment, e.g. a pending renewal)
+    const actorId = chat_id !== null ? chat_id.toString() : SYSTEM_ACTOR;
+    const keptBan = banResult.ok && bannedUntil !== undefined;
+    await setSubscription({ ...subscription, status: SUBSCRIPTION_STATUS.REVOKED, revokedAt: now, revokedBy: actorId, bannedUntil: keptBan ? bannedUntil : undefined }, env);
     const currentState = await getUserState(targetUserId, env);
+    if (!currentState || currentState.status === STATE.APPROVED) {
+        await setUserState(targetUserId, { status: STATE.REJECTED, phone: subscription.phone, timestamp: now }, env);
+    }
+    await recordAudit({
+        actorId: actorId,
+        action: AUDIT_ACTION.REVOKE,
+        targetId: targetUserIdString,
+        before: { status: subscription.status, channelId: currentChannelId },
+        after: keptBan
+            ? { status: SUBSCRIPTION_STATUS.REVOKED, channelId: currentChannelId, bannedUntil }
+            : { status: SUBSCRIPTION_STATUS.REVOKED, channelId: currentChannelId }
+    }, env);
+
+    // 6. Report to the Admin
+    const userDetails = await getUserDisplayDetails(targetUserId, env);
+    await notifyAdmin(`🗑️ Access for User ${userDetails} (\`${targetUserIdString}\`) *REVOKED* (State set to REJECTED).\n\n${steps.join('\n')}`);
+    return true;
+}
+
+
+// =========================================================
+// 5A. PAYMENT VERIFICATION PROVIDERS
+// =========================================================
+
+// What a provider is asked to confirm for a payment in PENDING_ADMIN_REVIEW
+interface PaymentVerificationRequest {
+    userId: number;
+    phone?: string; // Phone number the user paid from
+    expectedAmount?: string; // Plan price, or the default Payment Amount
+    reportedAmount?: string; // Amount read from the user's SMS, if any
+    reference?: string; // Transaction ID read from the user's SMS, if any
+}
+
+interface PaymentVerificationResult {
+    verified: boolean; // true only on a confident match; anything else goes to manual review
+    reason: string; // Shown to admins either way
+}
+
+// A payment provider lookup (Telebirr, Chapa, ...). Providers never change state themselves:
+// the caller approves on a confident match and otherwise leaves the payment for admins.
+interface PaymentVerifier {
+    name: string;
+    testOnly?: boolean; // Only used while TELEGRAM_API_BASE points at a fake Bot API, never in production
+    verify(request: PaymentVerificationRequest, env: Env): Promise<PaymentVerificationResult>;
+}
+
+// Offline stand-in for a real provider: references starting with "MOCK" are "found" at the
+// amount written in the SMS. Lets the auto-approval path be exercised without any payment API.
+// Anyone can paste a "MOCK..." SMS, so it is test-only.
+const mockPaymentVerifier: PaymentVerifier = {
+    name: 'mock',
+    testOnly: true,
+    async verify(request: PaymentVerificationRequest): Promise<PaymentVerificationResult> {
+        if (!request.reference) {
+            return { verified: false, reason: 'No transaction reference to look up' };
+        }
+        if (!request.reference.startsWith('MOCK')) {
+            return { verified: false, reason: `Transaction ${request.reference} not found` };
+        }
+        if (!request.expectedAmount || !request.reportedAmount || parseFloat(request.reportedAmount) !== parseFloat(request.expectedAmount)) {
+            return { verified: false, reason: `Amount ${request.reportedAmount || 'unknown'} does not match ${request.expectedAmount || 'unknown'} ETB` };
+        }
+        return { verified: true, reason: `Transaction ${request.reference} found for ${request.reportedAmount} ETB` };
+    },
+};
+
+const PAYMENT_VERIFIERS: Record<string, PaymentVerifier> = {
+    [mockPaymentVerifier.name]: mockPaymentVerifier,
+};
+
+function getPaymentVerifier(env: Env): PaymentVerifier | null {
+    if (!env.PAYMENT_VERIFIER) return null;
+    const verifier = PAYMENT_VERIFIERS[env.PAYMENT_VERIFIER];
+    if (!verifier) {
+        console.warn(`Unknown PAYMENT_VERIFIER "${env.PAYMENT_VERIFIER}"; payments go to manual review`);
+        return null;
+    }
+    if (verifier.testOnly && getTelegramApiBase(env) === DEFAULT_TELEGRAM_API_BASE) {
+        console.error(`PAYMENT_VERIFIER "${verifier.name}" is for testing only and is ignored against the real Bot API; payments go to manual review`);
+        return null;
+    }
+    return verifier;
+}
+
+// Admin menu warning for a test-only PAYMENT_VERIFIER, whether it is active or ignored
+function getPaymentVerifierWarning(env: Env): string {
+    const verifier = env.PAYMENT_VERIFIER ? PAYMENT_VERIFIERS[env.PAYMENT_VERIFIER] : undefined;
+    if (!verifier?.testOnly) return '';
+    return getPaymentVerifier(env)
+        ? `\n\n⚠️ PAYMENT\\_VERIFIER=${verifier.name} *is active:* payments are auto-approved without a real provider. Remove it before going live.`
+        : `\n\n⚠️ PAYMENT\\_VERIFIER=${verifier.name} *is ignored* (test-only); every payment goes to manual review.`;
+}
+
+// Asks the configured provider about a pending payment. Returns null when no provider is configured.
+// Warnings found in the proof (e.g. a reused transaction) always force manual review.
+async function verifyPendingPayment(userId: number, state: UserPaymentState, env: Env): Promise<(PaymentVerificationResult & { provider: string }) | null> {
+    const verifier = getPaymentVerifier(env);
+    if (!verifier) return null;
+
+    const request: PaymentVerificationRequest = {
+        userId: userId,
+        phone: state.phone,
+        expectedAmount: state.plan?.price || await getPaymentAmount(env) || undefined,
+        reportedAmount: state.proof?.sms?.amount,
+        reference: state.proof?.sms?.transactionId,
+    };
+
+    let result: PaymentVerificationResult;
+    try {
+        result = await verifier.verify(request, env);
+    } catch (error) {
+        console.error(`Payment verifier ${verifier.name} failed for user ${userId}:`, error);
+        result = { verified: false, reason: 'Verification provider error' };
+    }
+
+    if (result.verified && state.proof?.warnings?.length) {
+        result = { verified: false, reason: `${result.reason}, but the proof has warnings` };
+    }
+    return { ...result, provider: verifier.name };
+}
+
+// =========================================================
+// 5B. CHAPA HOSTED CHECKOUT
+// =========================================================
+
+// An online payment started with the "Pay online" button. Paid sessions are approved
+// automatically when Chapa's signed webhook arrives; the manual Telebirr flow stays available.
+interface CheckoutSession {
+    txRef: string;
+    userId: number;
+    amount: string;
+    plan?: SubscriptionPlan;
+    isRenewal?: boolean;
+    renewChannelId?: string;
+    status: 'PENDING' | 'PAID' | 'REVIEW'; // REVIEW: paid, but not enough; left for an admin
+    createdAt: number;
+    paidAt?: number;
+}
+
+function getChapaApiBase(env: Env): string {
+    return (env.CHAPA_API_BASE || DEFAULT_CHAPA_API_BASE).replace(/\/+$/, '');
+}
+
+// "Pay online" button shown next to the manual payment steps when Chapa is configured
+function getCheckoutMarkup(env: Env, t: Translator): any | undefined {
+    if (!env.CHAPA_SECRET_KEY) return undefined;
+    return { inline_keyboard: [[{ text: t('BUTTON_PAY_ONLINE'), callback_data: "/checkout" }]] };
+}
+
+// Hex HMAC-SHA256 of the raw webhook body, as sent by Chapa in x-chapa-signature
+async function computeChapaSignature(body: string, secret: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+    return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function verifyChapaSignature(body: string, signature: string | null, env: Env): Promise<boolean> {
+    if (!env.CHAPA_WEBHOOK_SECRET || !signature) return false;
+    const expected = await computeChapaSignature(body, env.CHAPA_WEBHOOK_SECRET);
+    return timingSafeEqual(signature.toLowerCase(), expected);
+}
+
+// Creates a Chapa checkout and returns its hosted payment page URL, or null on failure
+async function initializeChapaCheckout(session: CheckoutSession, env: Env): Promise<string | null> {
+    try {
+        const response = await fetch(`${getChapaApiBase(env)}/v1/transaction/initialize`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${env.CHAPA_SECRET_KEY}` },
+            body: JSON.stringify({
+                amount: session.amount,
+                currency: 'ETB',
+                tx_ref: session.txRef,
+                customization: { title: 'Subscription', description: session.plan ? session.plan.name : 'Channel access' },
+            }),
+        });
+        const result: any = await response.json();
+        if (!response.ok || result.status !== 'success' || !result.data?.checkout_url) {
+            console.error(`Chapa initialize failed for ${session.txRef}:`, JSON.stringify(result));
+            return null;
+        }
+        return result.data.checkout_url;
+    } catch (error) {
+        console.error(`Chapa initialize error for ${session.txRef}:`, error);
+        return null;
+    }
+}
+
+// Asks Chapa whether a transaction really succeeded; webhooks alone are not trusted for the amount
+async function verifyChapaTransaction(txRef: string, env: Env): Promise<{ success: boolean; amount?: string; currency?: string }> {
+    try {
+        const response = await fetch(`${getChapaApiBase(env)}/v1/transaction/verify/${encodeURIComponent(txRef)}`, {
+            headers: { 'Authorization': `Bearer ${env.CHAPA_SECRET_KEY}` },
+        });
+        const result: any = await response.json();
+        const success = response.ok && result.status === 'success' && result.data?.status === 'success';
+        return { success, amount: result.data?.amount?.toString(), currency: result.data?.currency };
+    } catch (error) {
+        console.error(`Chapa verify error for ${txRef}:`, error);
+        return { success: false };
+    }
+}
+
+// Handles the "Pay online" button: starts a checkout for the plan the user is paying for
+async function handleCheckoutRequest(chat_id: number, sender_id: number, env: Env) {
+    const t = await getUserTexts(sender_id, env);
+    if (!env.CHAPA_SECRET_KEY) {
+        await sendTelegramMessage(chat_id, t('CHECKOUT_UNAVAILABLE'), env);
+        return;
+    }
+
+    const currentState = await getUserState(sender_id, env);
+    if (!currentState || currentState.status !== STATE.WAITING_FOR_PHONE) {
+        await sendTelegramMessage(chat_id, t('CHECKOUT_NEEDS_START'), env);
+        return;
+    }
+
+    const amount = currentState.plan?.price || await getPaymentAmount(env);
+    if (!amount) {
+        await sendTelegramMessage(chat_id, t('CHECKOUT_NO_AMOUNT'), env);
+        return;
+    }
+
+    const session: CheckoutSession = {
+        txRef: `tg${sender_id}-${crypto.randomUUID().slice(0, 8)}`,
+        userId: sender_id,
+        amount: amount,
+        plan: currentState.plan,
+        isRenewal: currentState.isRenewal,
+        renewChannelId: currentState.renewChannelId,
+        status: 'PENDING',
+        createdAt: Date.now(),
+    };
+
+    const checkoutUrl = await initializeChapaCheckout(session, env);
+    if (!checkoutUrl) {
+        await sendTelegramMessage(chat_id, t('CHECKOUT_FAILED'), env);
+        return;
+    }
+    await safeKVPut(CHECKOUT_PREFIX + session.txRef, session, env, { expirationTtl: CHECKOUT_TTL_SECONDS });
+
+    const markup = { inline_keyboard: [[{ text: t('BUTTON_PAY_AMOUNT', { amount }), url: checkoutUrl }]] };
+    await sendTelegramMessage(chat_id, t('CHECKOUT_READY', { amount }), env, markup);
+}
+
+// Processes a signed Chapa webhook: verifies the transaction and approves the user.
+// Returns the HTTP status to answer Chapa with (non-2xx makes Chapa retry).
+async function handleChapaWebhook(rawBody: string, signature: string | null, env: Env): Promise<number> {
+    if (!await verifyChapaSignature(rawBody, signature, env)) {
+        console.warn('[CHAPA] Rejected webhook with a missing or invalid signature');
+        return 401;
+    }
+
+    let event: any;
+    try {
+        event = JSON.parse(rawBody);
+    } catch (e) {
+        return 400;
+    }
+
+    const txRef = event.tx_ref || event.trx_ref;
+    if (!txRef || event.status !== 'success') return 200; // Failed/other events need no action
+
+    const session = await safeKVGet<CheckoutSession | null>(CHECKOUT_PREFIX + txRef, env, null);
+    if (!session) {
+        console.warn(`[CHAPA] Webhook for unknown or expired checkout ${txRef}`);
+        return 200;
+    }
+    if (session.status !== 'PENDING') return 200; // Duplicate delivery
+
+    const verification = await verifyChapaTransaction(txRef, env);
+    if (!verification.success) {
+        console.error(`[CHAPA] Transaction ${txRef} could not be verified`);
+        return 502;
+    }
+    if (verification.currency !== 'ETB' || !verification.amount || parseFloat(verification.amount) < parseFloat(session.amount)) {
+        return await holdCheckoutForReview(session, `${verification.amount || '?'} ${verification.currency || '?'}`, env);
+    }
+
+    // Approve under the user's lock, calling the unlocked approvePayment directly
+    const approved = await withUserLock(session.userId.toString(), null, 'CHECKOUT', env, null, async () => {
+        const latest = await safeKVGet<CheckoutSession | null>(CHECKOUT_PREFIX + txRef, env, null);
+        if (!latest || latest.status === 'PAID') return true;
+
+        // The approval is built from the checkout session alone: the user may have been approved another
+        // way since (then this payment extends that subscription), and a receipt they also sent is not
+        // what paid, so its SMS claim is released rather than carried into the approval.
+        const currentState = await getUserState(session.userId, env);
+        const channelId = await getPaymentChannelId(session, env);
+        const subscription = channelId ? await getSubscription(session.userId, channelId, env) : null;
+        if (currentState?.proof?.sms) await releaseTransactionClaim(currentState.proof.sms.transactionId, session.userId, env);
+        await setUserState(session.userId, {
+            status: STATE.PENDING_ADMIN_REVIEW,
+            phone: currentState?.phone || subscription?.phone,
+            timestamp: Date.now(),
+            isRenewal: session.isRenewal || isSubscriptionActive(subscription),
+            renewChannelId: session.renewChannelId,
+            plan: session.plan,
+        }, env);
+        const success = await approvePayment(null, session.userId.toString(), env, 'chapa');
+        if (success) {
+            await safeKVPut(CHECKOUT_PREFIX + txRef, { ...latest, status: 'PAID', paidAt: Date.now() }, env, { expirationTtl: CHECKOUT_TTL_SECONDS });
+        }
+        return success;
+    });
+
+    if (approved === null) return 503; // Lock busy; let Chapa retry
+    if (!approved) return 500;
+
+    const userDetails = await getStoredDisplayName(session.userId, env);
+    const adminIds = await getAdminIds(env);
+    await Promise.all(adminIds.map(adminId => sendTelegramMessage(parseInt(adminId, 10),
+        `💳 *Online payment received* (Chapa)\n*User:* ${userDetails} (ID: \`${session.userId}\`)\n*Amount:* ${verification.amount} ETB\n*Reference:* \`${txRef}\`\nAccess was granted automatically.`, env)));
+    return 200;
+}
+
+// A verified payment in the wrong currency, or below the plan price, is not approved automatically:
+// the user goes to the review queue with a warning and the admins are told what was paid.
+async function holdCheckoutForReview(session: CheckoutSession, paid: string, env: Env): Promise<number> {
+    console.error(`[CHAPA] Transaction ${session.txRef} paid ${paid}, expected ${session.amount} ETB`);
+    const warning = `Chapa payment ${session.txRef} paid ${paid}, expected ${session.amount} ETB`;
+
+    const held = await withUserLock(session.userId.toString(), null, 'CHECKOUT', env, null, async () => {
+        const latest = await safeKVGet<CheckoutSession | null>(CHECKOUT_PREFIX + session.txRef, env, null);
+        if (!latest || latest.status !== 'PENDING') return false;
+
+        const currentState = await getUserState(session.userId, env);
+        const proof: PaymentProof = currentState?.proof || { type: 'checkout', receivedAt: Date.now() };
+        await setUserState(session.userId, {
+            ...currentState,
+            status: STATE.PENDING_ADMIN_REVIEW,
+            timestamp: Date.now(),
+            isRenewal: session.isRenewal,
+            renewChannelId: session.renewChannelId,
+            plan: session.plan,
+            proof: { ...proof, warnings: [...(proof.warnings || []), warning] },
+        }, env);
+        await safeKVPut(CHECKOUT_PREFIX + session.txRef, { ...latest, status: 'REVIEW', paidAt: Date.now() }, env, { expirationTtl: CHECKOUT_TTL_SECONDS });
+        await recordAudit({ actorId: 'chapa', action: AUDIT_ACTION.CHECKOUT_MISMATCH, targetId: session.userId.toString(), before: { expected: `${session.amount} ETB` }, after: { paid, txRef: session.txRef } }, env);
+        return true;
+    });
+
+    if (held === null) return 503; // Lock busy; let Chapa retry
+    if (!held) return 200; // Another delivery already handled it
+
+    const userDetails = await getStoredDisplayName(session.userId, env);
+    const adminIds = await getAdminIds(env);
+    await Promise.all(adminIds.map(adminId => sendTelegramMessage(parseInt(adminId, 10),
+        `⚠️ *Online payment needs review* (Chapa)\n*User:* ${userDetails} (ID: \`${session.userId}\`)\n*Paid:* ${escapeMarkdown(paid)}\n*Expected:* ${session.amount} ETB\n*Reference:* \`${session.txRef}\`\nAccess was *not* granted; the payment is waiting in Review Payments.`, env)));
+    return 200;
+}
+
+// =========================================================
+// 5C. BROADCASTS
+// =========================================================
+
+// Admins compose a broadcast by sending (or forwarding) any message to the bot; it is copied to each
+// recipient with copyMessage. Recipients are resolved when the broadcast starts, then sent in batches
+// by the every-minute Cron Trigger (never inside the admin's webhook request), so no invocation runs
+// into the Workers time or subrequest limits.
+interface BroadcastDraft {
+    fromChatId: number;
+    messageId: number;
+    segment?: string; // A BROADCAST_SEGMENTS key, set once picked
+    days?: number; // For the "expiring" segment
+}
+
+interface BroadcastJob {
+    id: string;
+    adminId: number;
+    fromChatId: number;
+    messageId: number;
+    segment: string;
+    days?: number;
+    recipients: number[];
+    nextIndex: number; // Recipients before this index have been tried
+    delivered: number;
+    failed: number;
+    blocked: number; // 403: the user blocked the bot or deleted their account
+    status: 'SENDING' | 'DONE' | 'CANCELLED';
+    createdAt: number;
+    finishedAt?: number;
+}
+
+async function getBroadcastDraft(adminId: number, env: Env): Promise<BroadcastDraft | null> {
+    return await safeKVGet<BroadcastDraft | null>(BROADCAST_DRAFT_PREFIX + adminId.toString(), env, null);
+}
+
+async function setBroadcastDraft(adminId: number, draft: BroadcastDraft, env: Env): Promise<boolean> {
+    return await safeKVPut(BROADCAST_DRAFT_PREFIX + adminId.toString(), draft, env, { expirationTtl: BROADCAST_DRAFT_TTL_SECONDS });
+}
+
+async function clearBroadcastDraft(adminId: number, env: Env): Promise<void> {
+    await env.KV_BINDING.delete(BROADCAST_DRAFT_PREFIX + adminId.toString());
+}
+
+async function getBroadcastJob(jobId: string, env: Env): Promise<BroadcastJob | null> {
+    return await safeKVGet<BroadcastJob | null>(BROADCAST_PREFIX + jobId, env, null);
+}
+
+// Jobs still sending have no TTL; finished ones expire after BROADCAST_JOB_TTL_SECONDS
+async function setBroadcastJob(job: BroadcastJob, env: Env): Promise<boolean> {
+    const options = job.status === 'SENDING' ? undefined : { expirationTtl: BROADCAST_JOB_TTL_SECONDS };
+    return await safeKVPut(BROADCAST_PREFIX + job.id, job, env, options);
+}
+
+function getBroadcastQueueKey(job: BroadcastJob): string {
+    return `${BROADCAST_QUEUE_PREFIX}${job.createdAt}:${job.id}`;
+}
+
+function describeSegment(segment: string, days?: number): string {
+    if (segment === 'expiring') return `${BROADCAST_SEGMENTS.expiring} within ${days} day(s)`;
+    return BROADCAST_SEGMENTS[segment] || segment;
+}
+
+function formatBroadcastReport(job: BroadcastJob, title: string): string {
+    return `${title}\n\n*Segment:* ${describeSegment(job.segment, job.days)}\n*Sent:* ${job.nextIndex}/${job.recipients.length}\n` +
+        `✅ Delivered: *${job.delivered}*\n🚫 Blocked: *${job.blocked}*\n⚠️ Failed: *${job.failed}*`;
+}
+
+// Every user ID under a profile or status index prefix
+async function listIndexedUserIds(prefix: string, env: Env): Promise<number[]> {
+    const userIds: number[] = [];
+    let cursor: string | undefined = undefined;
+    do {
+        const result: KVNamespaceListResult<unknown> = await env.KV_BINDING.list({ prefix, cursor });
+        for (const key of result.keys) {
+            const userId = parseInt(key.name.slice(prefix.length), 10);
+            if (!isNaN(userId)) userIds.push(userId);
+        }
+        cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+    return userIds;
+}
+
+// Unique user IDs in a segment. Approved and expiring users come from the subscriber records.
+async function getBroadcastRecipients(segment: string, days: number | undefined, env: Env): Promise<number[]> {
+    let userIds: number[] = [];
+    switch (segment) {
+        case 'all':
+            userIds = await listIndexedUserIds(USER_PROFILE_PREFIX, env);
+            break;
+        case 'approved':
+        case 'expiring': {
+            const cutoff = Date.now() + (days || 0) * DAY_IN_MS;
+            const subscriptions = await getActiveSubscriptions(env);
+            userIds = subscriptions
+                .filter(subscription => segment === 'approved' || subscription.expiresAt <= cutoff)
+                .map(subscription => subscription.userId);
+            break;
+        }
+        case 'rejected':
+            userIds = await listIndexedUserIds(`${USER_STATUS_INDEX_PREFIX}${STATE.REJECTED}:`, env);
+            break;
+        case 'pending':
+            userIds = [
+                ...await listIndexedUserIds(`${USER_STATUS_INDEX_PREFIX}${STATE.PENDING_CONFIRMATION}:`, env),
+                ...await listIndexedUserIds(`${USER_STATUS_INDEX_PREFIX}${STATE.PENDING_ADMIN_REVIEW}:`, env),
+            ];
+            break;
+    }
+    return [...new Set(userIds)];
+}
+
+// Step 1: the admin's message (any type) becomes the broadcast content
+async function handleBroadcastMessage(chat_id: number, adminId: number, message: any, env: Env) {
+    if (!await setBroadcastDraft(adminId, { fromChatId: chat_id, messageId: message.message_id }, env)) {
+        await sendTelegramMessage(chat_id, "❌ Failed to save the broadcast draft. Please try again.", env);
+        return;
+    }
+    const menu = getBroadcastSegmentMenu();
+    await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
+}
+
+// Step 2: the admin picked a segment; show how many users it reaches and ask for confirmation
+async function handleBroadcastSegment(chat_id: number, adminId: number, segment: string, days: number | undefined, env: Env, message_id?: number) {
+    const draft = await getBroadcastDraft(adminId, env);
+    if (!draft) {
+        await sendTelegramMessage(chat_id, "❌ This broadcast draft has expired. Start again from the admin menu.", env);
+        return;
+    }
+    if (!BROADCAST_SEGMENTS[segment] || (segment === 'expiring' && !(days && days > 0))) {
+        await sendTelegramMessage(chat_id, "❌ Unknown segment.", env);
+        return;
+    }
+
+    const recipients = await getBroadcastRecipients(segment, days, env);
+    await setBroadcastDraft(adminId, { ...draft, segment, days }, env);
+
+    let text: string;
+    let markup: any;
+    if (recipients.length === 0) {
+        const menu = getBroadcastSegmentMenu();
+        text = `📣 *${describeSegment(segment, days)}* has no users right now. Pick another segment.`;
+        markup = menu.markup;
+    } else {
+        text = `📣 *Confirm Broadcast*\n\n*Segment:* ${describeSegment(segment, days)}\n*Recipients:* ${recipients.length}\n\n` +
+            `Your message will be copied to each of them, about ${BROADCAST_BATCH_SIZE} per minute. You will get a report when it finishes.`;
+        markup = {
+            inline_keyboard: [
+                [{ text: `✅ Send to ${recipients.length} user(s)`, callback_data: "/broadcast_send" }],
+                [{ text: "⬅️ Change Segment", callback_data: "/broadcast_segments" }, { text: "❌ Discard", callback_data: "/broadcast_discard" }],
+            ]
+        };
+    }
+
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, text, env, markup);
+    } else {
+        await sendTelegramMessage(chat_id, text, env, markup);
+    }
+}
+
+// Step 3: queues the broadcast and sends the first batch right away
+async function handleStartBroadcast(chat_id: number, adminId: number, env: Env, message_id?: number) {
+    const draft = await getBroadcastDraft(adminId, env);
+    if (!draft || !draft.segment) {
+        await sendTelegramMessage(chat_id, "❌ This broadcast draft has expired. Start again from the admin menu.", env);
+        return;
+    }
+
+    // Resolved again: the segment may have changed since the count was shown
+    const recipients = await getBroadcastRecipients(draft.segment, draft.days, env);
+    if (recipients.length === 0) {
+        await sendTelegramMessage(chat_id, `📣 *${describeSegment(draft.segment, draft.days)}* has no users right now. Nothing was sent.`, env);
+        return;
+    }
+
+    const job: BroadcastJob = {
+        id: crypto.randomUUID(),
+        adminId: adminId,
+        fromChatId: draft.fromChatId,
+        messageId: draft.messageId,
+        segment: draft.segment,
+        days: draft.days,
+        recipients: recipients,
+        nextIndex: 0,
+        delivered: 0,
+        failed: 0,
+        blocked: 0,
+        status: 'SENDING',
+        createdAt: Date.now(),
+    };
+    if (!await setBroadcastJob(job, env)) {
+        await sendTelegramMessage(chat_id, "❌ Failed to start the broadcast. Please try again.", env);
+        return;
+    }
+    await env.KV_BINDING.put(getBroadcastQueueKey(job), '');
+    await clearBroadcastDraft(adminId, env);
+    await recordAudit({ actorId: adminId.toString(), action: AUDIT_ACTION.BROADCAST, targetId: job.id, after: `${job.segment}: ${recipients.length} recipient(s)` }, env);
+
+    const text = `📣 *Broadcast started*\n\n*Segment:* ${describeSegment(job.segment, job.days)}\n*Recipients:* ${recipients.length}\n\nSending starts within a minute. You will get a report when it finishes.`;
+    const markup = { inline_keyboard: [[{ text: "📊 Progress", callback_data: `/broadcast_status ${job.id}` }, { text: "🛑 Stop", callback_data: `/broadcast_cancel ${job.id}` }]] };
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, text, env, markup);
+    } else {
+        await sendTelegramMessage(chat_id, text, env, markup);
+    }
+}
+
+async function handleBroadcastStatus(chat_id: number, jobId: string, env: Env, message_id?: number) {
+    const job = await getBroadcastJob(jobId, env);
+    if (!job) {
+        await sendTelegramMessage(chat_id, "❌ Broadcast not found.", env);
+        return;
+    }
+    const title = job.status === 'SENDING' ? "📣 *Broadcast in progress*" : job.status === 'DONE' ? "📣 *Broadcast finished*" : "📣 *Broadcast stopped*";
+    const markup = job.status === 'SENDING'
+        ? { inline_keyboard: [[{ text: "🔄 Refresh", callback_data: `/broadcast_status ${job.id}` }, { text: "🛑 Stop", callback_data: `/broadcast_cancel ${job.id}` }]] }
+        : undefined;
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, formatBroadcastReport(job, title), env, markup);
+    } else {
+        await sendTelegramMessage(chat_id, formatBroadcastReport(job, title), env, markup);
+    }
+}
+
+// Stops a broadcast; users already sent to keep the message
+async function handleCancelBroadcast(chat_id: number, jobId: string, env: Env, message_id?: number) {
+    const job = await getBroadcastJob(jobId, env);
+    if (!job) {
+        await sendTelegramMessage(chat_id, "❌ Broadcast not found.", env);
+        return;
+    }
+    if (job.status !== 'SENDING') {
+        await handleBroadcastStatus(chat_id, jobId, env, message_id);
+        return;
+    }
+
+    const cancelled: BroadcastJob = { ...job, status: 'CANCELLED', finishedAt: Date.now() };
+    await setBroadcastJob(cancelled, env);
+    await env.KV_BINDING.delete(getBroadcastQueueKey(job));
+    await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.CANCEL_BROADCAST, targetId: job.id, before: `${job.nextIndex}/${job.recipients.length} sent` }, env);
+    await handleBroadcastStatus(chat_id, jobId, env, message_id);
+}
+
+// Copies the message to the job's next recipients until the send budget or the deadline runs out and
+// returns the number of sends used. Each send is one request without retries, so the budget bounds
+// the run's subrequests and no send outlives the queue lock; a 429 ends the run, and the next run
+// resumes from that recipient. Progress is saved every BROADCAST_SAVE_INTERVAL_MS,
+// so a run cut short re-sends to a few recipients at most; a Stop seen while saving ends the batch.
+async function sendBroadcastBatch(job: BroadcastJob, budget: number, deadline: number, env: Env): Promise<number> {
+    let used = 0;
+    let savedAt = Date.now();
+    while (job.nextIndex < job.recipients.length && used < budget && Date.now() < deadline) {
+        if (Date.now() - savedAt >= BROADCAST_SAVE_INTERVAL_MS) {
+            const latest = await getBroadcastJob(job.id, env);
+            if (latest?.status === 'CANCELLED') break;
+            await setBroadcastJob(job, env);
+            savedAt = Date.now();
+        }
+
+        const recipient = job.recipients[job.nextIndex];
+        const result = await copyTelegramMessage(recipient, job.fromChatId, job.messageId, env, false);
+        used++;
+
+        if (result.ok) {
+            job.delivered++;
+        } else if (result.error.kind === TELEGRAM_ERROR.RATE_LIMITED) {
+            break;
+        } else if (result.error.kind === TELEGRAM_ERROR.BLOCKED) {
+            job.blocked++;
+        } else {
+            job.failed++;
+            console.warn(`Broadcast ${job.id} to ${recipient} failed: ${result.error.code} ${result.error.description}`);
+        }
+        job.nextIndex++;
+        await sleep(BROADCAST_SEND_INTERVAL_MS);
+    }
+    return used;
+}
+
+// Sends the next batch of queued broadcasts, oldest first, and reports finished ones to their admin.
+// Runs every minute from the Cron Trigger; the lock keeps two runs from sending to the same users.
+async function runBroadcastQueue(env: Env): Promise<void> {
+    const queued = await env.KV_BINDING.list({ prefix: BROADCAST_QUEUE_PREFIX, limit: 1 });
+    if (queued.keys.length === 0) return; // Nothing to send; skip the lock
+
+    await withUserLock(BROADCAST_LOCK_NAME, null, 'BROADCAST', env, null, async () => {
+        const deadline = Date.now() + BROADCAST_BATCH_TIME_MS;
+        let budget = BROADCAST_BATCH_SIZE;
+        const result = await env.KV_BINDING.list({ prefix: BROADCAST_QUEUE_PREFIX });
+
+        for (const key of result.keys) {
+            if (budget <= 0 || Date.now() >= deadline) break;
+            const job = await getBroadcastJob(key.name.split(':').pop() || '', env);
+            if (!job || job.status !== 'SENDING') {
+                await env.KV_BINDING.delete(key.name);
+                continue;
+            }
+
+            budget -= await sendBroadcastBatch(job, budget, deadline, env);
+
+            // A Stop pressed during the batch wins over this run's copy of the job
+            const latest = await getBroadcastJob(job.id, env);
+            if (latest?.status === 'CANCELLED') {
+                job.status = 'CANCELLED';
+                job.finishedAt = latest.finishedAt;
+            } else if (job.nextIndex >= job.recipients.length) {
+                job.status = 'DONE';
+                job.finishedAt = Date.now();
+            }
+            await setBroadcastJob(job, env);
+
+            if (job.status !== 'SENDING') {
+                await env.KV_BINDING.delete(key.name);
+            }
+            if (job.status === 'DONE') {
+                await sendTelegramMessage(job.adminId, formatBroadcastReport(job, "📣 *Broadcast finished*"), env);
+                console.log(`[BROADCAST] ${job.id} finished: ${job.delivered} delivered, ${job.blocked} blocked, ${job.failed} failed.`);
+            }
+        }
+        return null;
+    });
+}
+
+// =========================================================
+// 5D. CHANNEL LINK GUARD & JOIN REQUESTS
+// =========================================================
+
+// Member, admin, or restricted but still in the chat
+function isChatMember(member: TelegramChatMember): boolean {
+    return member.status === 'creator' || member.status === 'administrator' || member.status === 'member'
+        || (member.status === 'restricted' && member.is_member === true);
+}
+
+// True for someone becoming a member (not a promotion, restriction or leave)
+function isChannelJoin(update: TelegramChatMemberUpdated): boolean {
+    const member = update.new_chat_member;
+    return !isChatMember(update.old_chat_member)
+        && (member.status === 'member' || (member.status === 'restricted' && member.is_member === true));
+}
+
+// Checks everyone who joins a managed channel against the invite link they used. Joining with your
+// own link is fine, and so is a subscriber in good standing joining some other way. Anyone else is
+// flagged (and removed in LINK_GUARD_MODE.REMOVE), as is the user whose link they used.
+async function handleChatMemberUpdate(update: TelegramChatMemberUpdated, env: Env): Promise<void> {
+    if (!isChannelJoin(update)) return;
+
+    const channelId = update.chat.id.toString();
+    const channels = await getChannels(env);
+    if (!channels.some(channel => channel.id === channelId)) return;
+
+    const joiner = update.new_chat_member.user;
+    if (joiner.is_bot || await isAdmin(joiner.id, env)) return;
+
+    const inviteLink = update.invite_link?.invite_link;
+    const linkOwner = inviteLink ? await getInviteLinkOwner(inviteLink, env) : null;
+    if (linkOwner && linkOwner.userId === joiner.id) return;
 
-    if (!currentState || currentState.status !== STATE.APPROVED) {
-        await sendTelegramMessage(chat_id, `⚠️ User ID \`${targetUserIdString}\` is not currently \`APPROVED\`. Revocation failed.`, env);
-        return;
-    }
+    const subscribed = isSubscriptionActive(await getSubscription(joiner.id, channelId, env));
+    if (!linkOwner && subscribed) return;
 
-    const currentChannelId = await getChannelId(env);
-    if (!currentChannelId) {
-        await sendTelegramMessage(chat_id, "❌ Channel ID is not set. Cannot revoke access.", env);
-        return;
-    }
+    const reason = linkOwner ? `Joined with the invite link of User ID ${linkOwner.userId}`
+        : inviteLink ? `Joined with an invite link the bot did not create`
+        : `Joined without an invite link`;
+    await flagUser(joiner.id, reason, env);
+    if (linkOwner) await flagUser(linkOwner.userId, `Shared their invite link with User ID ${joiner.id}`, env);
 
-    // --- REVOKE INVITE LINK FIRST ---
-    let linkRevoked = false;
-    const storedLink = currentState.inviteLink;
-    if (storedLink) {
-        // To "delete" a link in Telegram, we revoke it. 
-        // We can also try to edit it to be expired immediately if it wasn't already.
-        linkRevoked = await revokeChatInviteLink(currentChannelId, storedLink, env);
-        if (linkRevoked) {
-            await sendTelegramMessage(chat_id, `🔗 User's invite link successfully *REVOKED* and invalidated.`, env);
-        } else {
-            await sendTelegramMessage(chat_id, `⚠️ Failed to revoke invite link. It may have already been consumed or expired.`, env);
-        }
-    } else {
-        await sendTelegramMessage(chat_id, `⚠️ No invite link found in user state. Proceeding with kick only.`, env);
+    // Subscribers keep their place even when they came in with someone else's link
+    let removal: TelegramResult<true> | null = null;
+    if (!subscribed && await getLinkGuardMode(env) === LINK_GUARD_MODE.REMOVE) {
+        removal = await kickChatMember(channelId, joiner.id, env);
+    }
+    await recordAudit({
+        actorId: SYSTEM_ACTOR,
+        action: AUDIT_ACTION.LINK_SHARING,
+        targetId: joiner.id.toString(),
+        after: { channelId, inviteLink: inviteLink || null, linkOwner: linkOwner ? linkOwner.userId : null, removed: removal?.ok === true }
+    }, env);
+
+    let text = `🚨 *Invite link misuse* in ${escapeMarkdown(getChannelName(channels, channelId))}
+\n*User:* ${escapeMarkdown(getDisplayNameFromUser(joiner))} (\`${joiner.id}\`)
+*Reason:* ${reason}.`;
+    if (subscribed) {
+        text += `\n\nThey have an active subscription, so they were not removed.`;
+    } else if (removal?.ok) {
+        text += `\n\n✅ Removed from the channel.`;
+    } else if (removal) {
+        text += `\n\n⚠️ Could not remove them: ${describeTelegramError(removal.error)}.`;
     }
-    // --- END REVOKE LINK ---
 
-    // 1. Kick User from Channel
-    const kickSuccessful = await unbanChatMember(currentChannelId, targetUserId, env);
-    if (kickSuccessful) {
-        await sendTelegramMessage(chat_id, `✅ User \`${targetUserIdString}\` *KICKED* from channel \`${currentChannelId}\`.`, env);
-    } else {
-        await sendTelegramMessage(chat_id, `⚠️ Failed to KICK user \`${targetUserIdString}\` from channel. Check bot permissions.`, env);
+    const buttons: any[] = [];
+    if (!subscribed && !removal?.ok) {
+        buttons.push([{ text: "🚪 Remove from Channel", callback_data: `/remove_member ${joiner.id} ${channelId}` }]);
     }
+    if (linkOwner) {
+        buttons.push([{ text: `⛔ Ban Link Owner (${linkOwner.userId})`, callback_data: `/ban_menu ${linkOwner.userId} ${linkOwner.channelId}` }]);
+    }
+    const adminIds = await getAdminIds(env, '/remove_member'); // Only admins who can act on it
+    await Promise.all(adminIds.map(adminId =>
+        sendTelegramMessage(parseInt(adminId, 10), text, env, buttons.length > 0 ? { inline_keyboard: buttons } : undefined)
+    ));
+}
 
-    // 2. Notify User of Revocation
-    await sendTelegramMessage(targetUserId, ACCESS_REVOKED, env);
+// In join-request mode, approves requests from users with an active subscription to that channel and
+// declines everyone else with a DM on how to subscribe. In invite-link mode requests are left to the
+// channel's admins.
+async function handleChatJoinRequest(request: TelegramChatJoinRequest, env: Env): Promise<void> {
+    if (await getAccessMode(env) !== ACCESS_MODE.JOIN_REQUEST) return;
 
-    // 3. Update State to REJECTED (clears the link as well)
-    // We intentionally do not carry the inviteLink forward when setting status to REJECTED
-    await setUserState(targetUserId, { status: STATE.REJECTED, phone: currentState.phone, timestamp: Date.now() }, env);
+    const channelId = request.chat.id.toString();
+    const channels = await getChannels(env);
+    if (!channels.some(channel => channel.id === channelId)) return;
 
-    // 4. Notify Admin
-    const userDetails = await getUserDisplayDetails(targetUserId, env);
-    await sendTelegramMessage(chat_id, `🗑️ Access for User ${userDetails} (\`${targetUserIdString}\`) *REVOKED* (State set to REJECTED).`, env);
+    const userId = request.from.id;
+    if (isSubscriptionActive(await getSubscription(userId, channelId, env)) || await isAdmin(userId, env)) {
+        await approveChatJoinRequest(channelId, userId, env);
+        return;
+    }
+
+    await declineChatJoinRequest(channelId, userId, env);
+
+    // Users who never started the bot have no profile yet, so their Telegram language is used
+    const t = await getUserProfile(userId, env)
+        ? await getUserTexts(userId, env)
+        : createTranslator(resolveLocale(request.from.language_code), await getTextOverrides(env), { name: escapeMarkdown(getDisplayNameFromUser(request.from)) });
+    const channelNote = channels.length > 1 ? `\n${t('CHANNEL_LINE', { channel: getChannelName(channels, channelId) })}` : '';
+    await sendTelegramMessage(request.user_chat_id, t('JOIN_REQUEST_DECLINED', { channel_line: channelNote }), env);
 }
 
+// "🚪 Remove from Channel" on a link guard alert: kicks the member without touching any subscription
+async function handleRemoveMember(chat_id: number, targetUserIdString: string, channelId: string, env: Env) {
+    if (!/^\d+$/.test(targetUserIdString) || !channelId) {
+        await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
+        return;
+    }
+    const result = await kickChatMember(channelId, parseInt(targetUserIdString, 10), env);
+    if (!result.ok) {
+        await sendTelegramMessage(chat_id, `⚠️ Could not remove User ID \`${targetUserIdString}\` from channel \`${channelId}\`: ${describeTelegramError(result.error)}.`, env);
+        return;
+    }
+    await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.REMOVE_MEMBER, targetId: targetUserIdString, after: { channelId } }, env);
+    await sendTelegramMessage(chat_id, `✅ User ID \`${targetUserIdString}\` removed from channel \`${channelId}\`.`, env);
+}
 
 // =========================================================
 // 6. HELPERS FOR ADMIN DATA LISTS
 // =========================================================
 
-// Fetches users in a specific state
-async function getUsersInState(targetState: string, env: Env) {
-    const allKeys = await env.KV_BINDING.list({ prefix: USER_STATE_PREFIX });
+// Fetches one page of users in a specific state from the status index
+async function getUsersInState(targetState: string, env: Env, page: number = 0) {
+    const { users, hasMore } = await listUserIndexPage(`${USER_STATUS_INDEX_PREFIX}${targetState}:`, page, env);
     const userList: { id: string, state: UserPaymentState, displayName: string }[] = [];
 
-    for (const key of allKeys.keys) {
-        const userIdString = key.name.replace(USER_STATE_PREFIX, '');
-        const userId = parseInt(userIdString, 10);
-        const state = await getUserState(userId, env);
-
+    for (const user of users) {
+        // The index entry can outlive a state change by a moment; trust the state itself
+        const state = await getUserState(parseInt(user.id, 10), env);
         if (state && state.status === targetState) {
-            const displayName = await getUserDisplayDetails(userId, env);
-            userList.push({ id: userIdString, state, displayName });
+            userList.push({ id: user.id, state, displayName: user.displayName });
         }
     }
-    return userList;
+    return { users: userList, hasMore };
 }
 
 // =========================================================
@@ -811,30 +3635,49 @@ async function getUsersInState(targetState: string, env: Env) {
 // =========================================================
 
 // Detailed Admin Help Message (Now a simple menu intro)
-async function getAdminMenu(env: Env) {
+// Only the buttons the admin's role may use are shown (two per row)
+async function getAdminMenu(env: Env, role: string | null) {
     const currentChannelId = await getChannelId(env);
+    const channels = await getChannels(env);
+    const channelsLine = channels.length > 1 ? `\n*Managed Channels:* ${channels.length}` : '';
+
+    const allButtons = [
+        // Review & Approved Users
+        { text: "💰 Review Payments", callback_data: "/review_payments" },
+        { text: "👥 List Approved Users", callback_data: "/list_approved" },
+        // Configuration
+        { text: "⚙️ Set Channel ID", callback_data: "/set_channel_id_flow" },
+        { text: "💵 Set Payment Amount", callback_data: "/set_payment_amount_flow" },
+        { text: "📞 Set Payment Phone", callback_data: "/set_payment_phone_flow" },
+        { text: "🔐 Manage Admins", callback_data: "/manage_admins" },
+        // Utility
+        { text: "🗓️ Check Expired", callback_data: "/check_expired_subscriptions" },
+        { text: "📦 List All Users", callback_data: "/list_users" },
+        { text: "✉️ Send Invite", callback_data: "/invite_user_flow" },
+        { text: "📣 Broadcast", callback_data: "/broadcast_flow" },
+        // Plans & Channels
+        { text: "🏷️ Manage Plans", callback_data: "/manage_plans" },
+        { text: "📡 Manage Channels", callback_data: "/manage_channels" },
+        { text: "📝 Message Templates", callback_data: "/manage_templates" },
+        { text: "🛡️ Link Guard", callback_data: "/link_guard" },
+        { text: "🚪 Access Mode", callback_data: "/access_mode" },
+        // Status & Audit
+        { text: "ℹ️ Who is Admin / Status", callback_data: "/whoisadmin" },
+        { text: "📜 Audit Log", callback_data: "/audit_log 0" }
+    ];
+    const allowedButtons = allButtons.filter(button => hasPermission(role, button.callback_data.split(' ')[0]));
+
+    const rows: any[] = [];
+    for (let i = 0; i < allowedButtons.length; i += 2) {
+        rows.push(allowedButtons.slice(i, i + 2));
+    }
 
     return {
-        text: `👑 *Admin Control Panel*
-\n*Channel ID:* \`${currentChannelId || 'NOT SET'}\`
+        text: `👑 *Admin Control Panel*${role && role !== ADMIN_ROLE.OWNER ? ` (${role})` : ''}
+\n*Channel ID:* \`${currentChannelId || 'NOT SET'}\`${channelsLine}${getPaymentVerifierWarning(env)}
 \nSelect an option below to manage users and configuration.`,
         markup: {
-            inline_keyboard: [
-                // Row 1: Review & Approved Users
-                [{ text: "💰 Review Payments", callback_data: "/review_payments" },
-                { text: "👥 List Approved Users", callback_data: "/list_approved" }],
-                // Row 2: Configuration
-                [{ text: "⚙️ Set Channel ID", callback_data: "/set_channel_id_flow" },
-                { text: "💵 Set Payment Amount", callback_data: "/set_payment_amount_flow" }],
-                // Row 3: Configuration (continued)
-                [{ text: "📞 Set Payment Phone", callback_data: "/set_payment_phone_flow" },
-                { text: "🔐 Manage Admins", callback_data: "/manage_admins" }],
-                // Row 4: Utility
-                [{ text: "🗓️ Check Expired", callback_data: "/check_expired_subscriptions" },
-                { text: "📦 List All Users", callback_data: "/list_users" }],
-                // Row 5: Status
-                [{ text: "ℹ️ Who is Admin / Status", callback_data: "/whoisadmin" }]
-            ]
+            inline_keyboard: rows
         }
     };
 }
@@ -853,32 +3696,230 @@ function getAdminManagementMenu() {
     };
 }
 
+// Segment picker shown after the admin sent the message to broadcast
+function getBroadcastSegmentMenu() {
+    const expiringButtons: any[] = BROADCAST_EXPIRING_DAYS.map(days =>
+        ({ text: `${BROADCAST_SEGMENTS.expiring} in ${days}d`, callback_data: `/broadcast_segment expiring ${days}` })
+    );
+    expiringButtons.push({ text: `${BROADCAST_SEGMENTS.expiring} in…`, callback_data: "/broadcast_days_flow" });
+
+    return {
+        text: "📣 *Broadcast*\n\nWho should receive this message?",
+        markup: {
+            inline_keyboard: [
+                [{ text: BROADCAST_SEGMENTS.all, callback_data: "/broadcast_segment all" }, { text: BROADCAST_SEGMENTS.approved, callback_data: "/broadcast_segment approved" }],
+                expiringButtons,
+                [{ text: BROADCAST_SEGMENTS.rejected, callback_data: "/broadcast_segment rejected" }, { text: BROADCAST_SEGMENTS.pending, callback_data: "/broadcast_segment pending" }],
+                [{ text: "❌ Discard", callback_data: "/broadcast_discard" }],
+            ]
+        }
+    };
+}
+
+// Sub-menu for how approved users get into the channel (see approvePayment and handleChatJoinRequest)
+async function getAccessModeMenu(env: Env) {
+    const mode = await getAccessMode(env);
+    const option = (value: string, label: string) =>
+        [{ text: `${mode === value ? '✅ ' : ''}${label}`, callback_data: `/set_access_mode ${value}` }];
+
+    return {
+        text: `🚪 *Access Mode*
+
+*Single-use links:* every approved user gets their own invite link, which works once.
+*Join requests:* approved users get the channel's join-request link. The bot approves requests from subscribers and declines everyone else. The channel must not be public.
+
+Single-use links already sent keep working after a switch.
+
+*Current mode:* ${mode === ACCESS_MODE.JOIN_REQUEST ? 'Join requests' : 'Single-use links'}`,
+        markup: {
+            inline_keyboard: [
+                option(ACCESS_MODE.INVITE_LINK, "🔗 Single-use links"),
+                option(ACCESS_MODE.JOIN_REQUEST, "🙋 Join requests"),
+                [{ text: "⬅️ Back to Main Menu", callback_data: "/admin_menu" }]
+            ]
+        }
+    };
+}
+
+// Sub-menu for the channel link guard (see handleChatMemberUpdate)
+async function getLinkGuardMenu(env: Env) {
+    const mode = await getLinkGuardMode(env);
+    const option = (value: string, label: string) =>
+        [{ text: `${mode === value ? '✅ ' : ''}${label}`, callback_data: `/set_link_guard ${value}` }];
+
+    return {
+        text: `🛡️ *Link Guard*
+
+Members who join a channel with another user's invite link, or with a link the bot didn't create, are flagged and reported to you. Subscribers with active access are never removed.
+
+*Current mode:* ${mode === LINK_GUARD_MODE.REMOVE ? 'Flag and remove' : 'Flag only'}`,
+        markup: {
+            inline_keyboard: [
+                option(LINK_GUARD_MODE.FLAG, "🚩 Flag only"),
+                option(LINK_GUARD_MODE.REMOVE, "🚪 Flag and remove"),
+                [{ text: "⬅️ Back to Main Menu", callback_data: "/admin_menu" }]
+            ]
+        }
+    };
+}
+
+// Sub-menu for Subscription Plans
+async function getPlanManagementMenu(env: Env) {
+    const plans = await getPlans(env);
+
+    let text = "🏷️ *Subscription Plans*\n\n";
+    if (plans.length === 0) {
+        text += "No plans configured. Users pay the default *Payment Amount* for 30 days.";
+    } else {
+        const channels = await getChannels(env);
+        text += plans.map(plan => `• ${escapeMarkdown(formatPlan(plan, channels))}`).join('\n');
+    }
+
+    const buttons: any[] = plans.map(plan =>
+        [{ text: `➖ Remove ${plan.name}`, callback_data: `/remove_plan ${plan.id}` }]
+    );
+    buttons.push([{ text: "➕ Add Plan", callback_data: "/add_plan_flow" }]);
+    buttons.push([{ text: "⬅️ Back to Main Menu", callback_data: "/admin_menu" }]);
+
+    return { text, markup: { inline_keyboard: buttons } };
+}
+
+// Sub-menu for the Channel Registry
+async function getChannelManagementMenu(env: Env) {
+    const channels = await getChannels(env);
+
+    let text = "📡 *Managed Channels*\n\n";
+    text += channels.map((channel, index) =>
+        `• *${escapeMarkdown(channel.name)}* (\`${channel.id}\`)${index === 0 ? ' — default' : ''}`
+    ).join('\n');
+    text += "\n\nAdd a channel, then create plans for it under *Manage Plans*.";
+
+    // The default channel is managed through Set Channel ID
+    const buttons: any[] = channels.slice(1).map(channel =>
+        [{ text: `➖ Remove ${channel.name}`, callback_data: `/remove_channel ${channel.id}` }]
+    );
+    buttons.push([{ text: "➕ Add / Rename Channel", callback_data: "/add_channel_flow" }]);
+    buttons.push([{ text: "⬅️ Back to Main Menu", callback_data: "/admin_menu" }]);
+
+    return { text, markup: { inline_keyboard: buttons } };
+}
+
+// Sub-menu for the message templates and other user-facing text overrides
+async function getTemplateMenu(env: Env) {
+    const overrides = await getTextOverrides(env);
+    const isCustomized = (key: MessageKey) => LOCALES.some(locale => overrides[locale]?.[key] !== undefined);
+    const otherEntries = LOCALES.flatMap(locale =>
+        (Object.keys(overrides[locale] || {}) as MessageKey[])
+            .filter(key => !MESSAGE_TEMPLATES.some(template => template.key === key))
+            .map(key => ({ locale, key }))
+    );
+
+    let text = "📝 *Message Templates*\n\n";
+    text += `Texts are sent in ${LOCALES.map(locale => LOCALE_NAMES[locale]).join(', ')}, picked from the user's Telegram language or /language. `;
+    text += "Pick a template to view, edit or reset it. ✏️ marks customized ones.";
+    if (otherEntries.length > 0) {
+        text += `\n\n*Other overridden texts:*\n${otherEntries.map(entry => `• \`${entry.key}\` (${entry.locale})`).join('\n')}`;
+    }
+
+    const templateButtons = MESSAGE_TEMPLATES.map(template =>
+        ({ text: `${isCustomized(template.key) ? '✏️ ' : ''}${template.label}`, callback_data: `/template ${template.key}` })
+    );
+    const buttons: any[] = [];
+    for (let i = 0; i < templateButtons.length; i += 2) {
+        buttons.push(templateButtons.slice(i, i + 2));
+    }
+    otherEntries.forEach(entry =>
+        buttons.push([{ text: `♻️ Reset ${entry.key} (${entry.locale})`, callback_data: `/reset_text ${entry.locale} ${entry.key}` }])
+    );
+    buttons.push([{ text: "✏️ Override Any Text", callback_data: "/set_text_flow" }, { text: "📋 Text Keys", callback_data: "/text_keys" }]);
+    buttons.push([{ text: "⬅️ Back to Main Menu", callback_data: "/admin_menu" }]);
+
+    return { text, markup: { inline_keyboard: buttons } };
+}
+
+// One template in one locale, shown as plain text so the raw Markdown and placeholders are visible
+async function getTemplateView(key: MessageKey, locale: Locale, env: Env) {
+    const overrides = await getTextOverrides(env);
+    const override = overrides[locale]?.[key];
+    const currentText = override ?? MESSAGES[locale][key] ?? MESSAGES_EN[key];
+    const template = MESSAGE_TEMPLATES.find(entry => entry.key === key);
+
+    let text = `📝 ${template ? template.label : key} — ${LOCALE_NAMES[locale]}\n`;
+    text += `Key: ${key}\n`;
+    text += `Source: ${override !== undefined ? 'customized' : 'built-in default'}\n`;
+    text += `Placeholders: ${getAllowedPlaceholders(key).join(' ')}`;
+    if (template?.required) text += ` (required: ${template.required.join(' ')})`;
+    text += `\n\n${currentText}`;
+
+    const localeButtons = LOCALES.filter(other => other !== locale)
+        .map(other => ({ text: LOCALE_NAMES[other], callback_data: `/template ${key} ${other}` }));
+    const actionButtons: any[] = [
+        { text: "✏️ Edit", callback_data: `/template_edit ${key} ${locale}` },
+        { text: "👁 Preview", callback_data: `/template_preview ${key} ${locale}` },
+    ];
+    if (override !== undefined) {
+        actionButtons.push({ text: "♻️ Reset", callback_data: `/reset_text ${locale} ${key}` });
+    }
+
+    return {
+        text,
+        markup: { inline_keyboard: [actionButtons, localeButtons, [{ text: "⬅️ Back to Templates", callback_data: "/manage_templates" }]] }
+    };
+}
+
 
 // =========================================================
 // 8. USER FLOW HANDLER 
 // =========================================================
 
-async function handleRegularUserFlow(chat_id: number, text: string, sender_id: number, env: Env) {
+// message is the full Telegram message, used to pick up photos/documents sent as proof of payment
+async function handleRegularUserFlow(chat_id: number, text: string, sender_id: number, env: Env, message?: any) {
     const currentState = await getUserState(sender_id, env);
+    const t = await getUserTexts(sender_id, env);
+    const confirmMarkup = { inline_keyboard: [[{ text: t('BUTTON_CONFIRM_PAYMENT'), callback_data: "/confirm_payment" }]] };
 
     // --- 8A: Handle /confirm_payment Command (Only triggered by button callback now) ---
     if (text === '/confirm_payment') {
         if (!currentState) {
-            await sendTelegramMessage(chat_id, `🚫 Please /start first to use /confirm_payment.`, env);
+            await sendTelegramMessage(chat_id, t('CONFIRM_NEEDS_START'), env);
             return new Response('OK');
         }
 
         if (currentState.status === STATE.PENDING_CONFIRMATION) {
             // Move to admin review state
-            await setUserState(sender_id, { status: STATE.PENDING_ADMIN_REVIEW, phone: currentState.phone, timestamp: Date.now() }, env);
-            await sendTelegramMessage(chat_id, PENDING_ADMIN_INITIAL_MESSAGE, env);
+            const reviewState: UserPaymentState = { status: STATE.PENDING_ADMIN_REVIEW, phone: currentState.phone, timestamp: Date.now(), isRenewal: currentState.isRenewal, renewChannelId: currentState.renewChannelId, plan: currentState.plan, proof: currentState.proof };
+            await setUserState(sender_id, reviewState, env);
+            await sendTelegramMessage(chat_id, t(currentState.isRenewal ? 'PENDING_RENEWAL_INITIAL_MESSAGE' : 'PENDING_ADMIN_INITIAL_MESSAGE'), env);
 
-            // --- NEW: NOTIFY ALL ADMINS ---
             const userDetails = await getUserDisplayDetails(sender_id, env);
+            const channels = await getChannels(env);
+            const adminIds = await getAdminIds(env, '/approve'); // Only admins who can act on it
+
+            // --- AUTOMATIC VERIFICATION: approve on a confident provider match ---
+            const verification = await verifyPendingPayment(sender_id, reviewState, env);
+            if (verification && verification.verified) {
+                const approved = await handleApprovePayment(null, sender_id.toString(), env, `verifier:${verification.provider}`);
+                if (approved) {
+                    const autoApprovedText = `🤖 *Payment auto-approved* (${verification.provider})
+*User:* ${userDetails} (ID: \`${sender_id}\`)
+*Phone:* \`${currentState.phone}\`
+*Type:* ${currentState.isRenewal ? 'RENEWAL' : 'NEW SIGN-UP'}
+*Verification:* ${escapeMarkdown(verification.reason)}`;
+                    await Promise.all(adminIds.map(adminId => sendTelegramMessage(parseInt(adminId, 10), autoApprovedText, env)));
+                    return new Response('OK');
+                }
+                // Approval failed (e.g. invite link error): leave it for manual review
+            }
 
-            const notificationText = `🔔 *NEW PAYMENT REVIEW REQUIRED!* 🔔
+            // --- NEW: NOTIFY ALL ADMINS ---
+
+            const notificationTitle = currentState.isRenewal ? `🔄 *RENEWAL PAYMENT REVIEW REQUIRED!* 🔄` : `🔔 *NEW PAYMENT REVIEW REQUIRED!* 🔔`;
+            const notificationText = `${notificationTitle}
 *User:* ${userDetails} (ID: \`${sender_id}\`)
 *Phone:* \`${currentState.phone}\`
+*Type:* ${currentState.isRenewal ? 'RENEWAL' : 'NEW SIGN-UP'}
+*Plan:* ${currentState.plan ? formatPlan(currentState.plan, channels) : 'Default (no plan)'}
+*Proof:* ${describePaymentProof(currentState.proof)}${verification ? `\n*Verification:* ${verification.provider} — ${escapeMarkdown(verification.reason)}` : ''}
 *Status:* PENDING REVIEW
 `;
             const notificationMarkup = {
@@ -888,17 +3929,20 @@ async function handleRegularUserFlow(chat_id: number, text: string, sender_id: n
                 ]
             };
 
-            const adminIds = await getAdminIds(env);
-            await Promise.all(adminIds.map(adminId =>
-                sendTelegramMessage(parseInt(adminId, 10), notificationText, env, notificationMarkup)
+            // The proof (photo, file or SMS) is sent together with the Approve/Reject buttons
+            await Promise.all(adminIds.map(adminId => currentState.proof
+                ? sendPaymentProof(parseInt(adminId, 10), currentState.proof, notificationText, env, notificationMarkup)
+                : sendTelegramMessage(parseInt(adminId, 10), notificationText, env, notificationMarkup)
             ));
             // --- END NEW NOTIFICATION ---
 
         } else if (currentState.status === STATE.PENDING_ADMIN_REVIEW || currentState.status === STATE.APPROVED) {
-            await sendTelegramMessage(chat_id, `⚠️ You have already sent for confirmation. Please wait.`, env);
+            await sendTelegramMessage(chat_id, t('ALREADY_SENT'), env);
+        } else if (currentState.status === STATE.WAITING_FOR_PROOF) {
+            await sendTelegramMessage(chat_id, t('CONFIRM_NEEDS_PROOF'), env);
         } else {
             // Status: WAITING_FOR_PHONE, REJECTED (user should restart)
-            await sendTelegramMessage(chat_id, `🚫 To use /confirm_payment, please send your payment phone number first.`, env);
+            await sendTelegramMessage(chat_id, t('CONFIRM_NEEDS_PHONE'), env);
         }
         return new Response('OK');
     }
@@ -918,35 +3962,70 @@ async function handleRegularUserFlow(chat_id: number, text: string, sender_id: n
         if (validation.valid && validation.normalized) {
             // Valid phone number received - store normalized version
             await setUserState(sender_id, {
-                status: STATE.PENDING_CONFIRMATION,
+                status: STATE.WAITING_FOR_PROOF,
                 phone: validation.normalized,
-                timestamp: Date.now()
+                timestamp: Date.now(),
+                isRenewal: currentState.isRenewal,
+                renewChannelId: currentState.renewChannelId,
+                plan: currentState.plan
             }, env);
 
-            // Send message with the Confirm Payment button
-            const markup = {
-                inline_keyboard: [
-                    [{ text: "✅ Confirm Payment", callback_data: "/confirm_payment" }]
-                ]
-            };
-
-            await sendTelegramMessage(chat_id, PHONE_RECEIVED, env, markup);
+            await sendTelegramMessage(chat_id, t('PHONE_RECEIVED'), env);
         } else {
-            // Invalid phone number format - show specific error
-            const errorMsg = validation.error || INVALID_PHONE;
-            await sendTelegramMessage(chat_id, `❌ ${errorMsg}`, env);
+            // Invalid phone number format
+            await sendTelegramMessage(chat_id, t('INVALID_PHONE'), env);
         }
         return new Response('OK');
     }
 
-    // --- 8C: Handle other messages if user is in middle of flow ---
+    // --- 8C: Handle Proof of Payment (photo, document or pasted SMS) ---
+    // A new proof sent while waiting for confirmation replaces the previous one
+    if (currentState && (currentState.status === STATE.WAITING_FOR_PROOF || currentState.status === STATE.PENDING_CONFIRMATION)) {
+        if (text.startsWith('/')) {
+            return null;
+        }
+
+        const proof = extractPaymentProof(message);
+        if (proof) {
+            // A pasted (or captioned) Telebirr / CBE Birr SMS is cross-checked before it is accepted
+            const sms = proof.text ? parsePaymentSms(proof.text) : null;
+            if (sms) {
+                const check = await checkPaymentSms(sms, sender_id, currentState.plan, env);
+                if (check.reused) {
+                    await sendTelegramMessage(chat_id, t('SMS_TRANSACTION_USED', { transaction_id: sms.transactionId }), env);
+                    return new Response('OK');
+                }
+                proof.sms = sms;
+                if (check.warnings.length > 0) proof.warnings = check.warnings;
+            }
+
+            const replacedSms = currentState.proof?.sms;
+            if (replacedSms && replacedSms.transactionId !== sms?.transactionId) {
+                await releaseTransactionClaim(replacedSms.transactionId, sender_id, env);
+            }
+            await setUserState(sender_id, { ...currentState, status: STATE.PENDING_CONFIRMATION, timestamp: Date.now(), proof: proof }, env);
+
+            // Send message with the Confirm Payment button
+            await sendTelegramMessage(chat_id, t('PROOF_RECEIVED'), env, confirmMarkup);
+            return new Response('OK');
+        }
+        if (currentState.status === STATE.WAITING_FOR_PROOF) {
+            await sendTelegramMessage(chat_id, t('INVALID_PROOF'), env);
+            return new Response('OK');
+        }
+    }
+
+    // --- 8D: Handle other messages if user is in middle of flow ---
     if (currentState && currentState.status !== STATE.APPROVED && currentState.status !== STATE.REJECTED) {
-        if (currentState.status === STATE.PENDING_CONFIRMATION) {
+        if (currentState.status === STATE.WAITING_FOR_PLAN) {
+            // Show the plan buttons again if user sends random text
+            const planChoice = getPlanChoiceMessage(t, await getPlans(env), await getChannels(env));
+            await sendTelegramMessage(chat_id, `${t('CHOOSE_PLAN_PROMPT')}${planChoice.text}`, env, planChoice.markup);
+        } else if (currentState.status === STATE.PENDING_CONFIRMATION) {
             // Show the button again if user sends random text
-            const markup = { inline_keyboard: [[{ text: "✅ Confirm Payment", callback_data: "/confirm_payment" }]] };
-            await sendTelegramMessage(chat_id, `⚠️ Phone number received. Please press the button below.`, env, markup);
+            await sendTelegramMessage(chat_id, t('PROOF_RECEIVED_PRESS_BUTTON'), env, confirmMarkup);
         } else if (currentState.status === STATE.PENDING_ADMIN_REVIEW) {
-            await sendTelegramMessage(chat_id, PENDING_ADMIN, env);
+            await sendTelegramMessage(chat_id, t('PENDING_ADMIN'), env);
         }
         return new Response('OK');
     }
@@ -957,30 +4036,36 @@ async function handleRegularUserFlow(chat_id: number, text: string, sender_id: n
 // =========================================================
 // 9. CALLBACK QUERY HANDLER (NEW)
 // =========================================================
-async function handleCallbackQuery(query: any, env: Env) {
-    const chat_id = query.message?.chat.id || query.from.id;
-    const message_id = query.message?.message_id;
+async function handleCallbackQuery(query: TelegramCallbackQuery, env: Env) {
+    // Acknowledge the callback immediately
+    await answerCallbackQuery(query.id, env);
+
+    // Every button is sent in a bot message with callback data; anything else has nothing to act on
+    if (!query.message || !query.data) return;
+
+    const chat_id = query.message.chat.id;
+    const message_id = query.message.message_id;
     const data = query.data;
     const sender_id = query.from.id;
-    const senderIsAdmin = await isAdmin(sender_id, env);
-
-    // Acknowledge the callback immediately
-    await fetch(`https://api.telegram.org/bot${env.BOT_TOKEN}/answerCallbackQuery`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ callback_query_id: query.id }),
-    });
+    // Role is looked up on every callback, so removed or demoted admins lose access immediately
+    const senderRole = await getAdminRole(sender_id, env);
+    const senderIsAdmin = senderRole !== null;
 
     const parts = data.split(/\s+/);
     const command = parts[0];
     const argument = parts[1];
 
     // --- Admin Actions via Buttons ---
-    if (senderIsAdmin) {
+    if (senderIsAdmin && !hasPermission(senderRole, command)) {
+        console.warn(`Denied ${command} for ${senderRole} admin ${sender_id}`);
+        await recordAudit({ actorId: sender_id.toString(), action: AUDIT_ACTION.DENIED, targetId: argument, before: senderRole, after: command }, env);
+        await sendTelegramMessage(chat_id, `🚫 Your role (*${senderRole}*) can't do that.`, env);
+    }
+    else if (senderIsAdmin) {
 
         switch (command) {
             case '/admin_menu': {
-                const menu = await getAdminMenu(env);
+                const menu = await getAdminMenu(env, senderRole);
                 if (message_id) {
                     await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
                 } else {
@@ -999,27 +4084,160 @@ async function handleCallbackQuery(query: any, env: Env) {
                 break;
             }
 
+            case '/manage_plans': {
+                const menu = await getPlanManagementMenu(env);
+                if (message_id) {
+                    await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                } else {
+                    await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
+                }
+                break;
+            }
+
+            case '/remove_plan': {
+                if (argument) await handleRemovePlan(chat_id, argument, env);
+                const menu = await getPlanManagementMenu(env);
+                await sendTelegramMessage(chat_id, menu.text, env, menu.markup); // Show the updated list
+                break;
+            }
+
+            case '/manage_templates': {
+                const menu = await getTemplateMenu(env);
+                if (message_id) {
+                    await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                } else {
+                    await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
+                }
+                break;
+            }
+
+            case '/template': {
+                const locale = parts[2] || DEFAULT_LOCALE;
+                if (!argument || !isMessageKey(argument) || !isLocale(locale)) break;
+                const view = await getTemplateView(argument, locale, env);
+                await sendTelegramMessage(chat_id, view.text, env, view.markup, null); // Plain text: shows the raw template
+                break;
+            }
+
+            case '/template_preview': {
+                const locale = parts[2] || DEFAULT_LOCALE;
+                if (!argument || !isMessageKey(argument) || !isLocale(locale)) break;
+                const t = createTranslator(locale, await getTextOverrides(env));
+                const shown = await sendTelegramMessage(chat_id, t(argument, TEMPLATE_SAMPLE_VALUES), env, { inline_keyboard: [[{ text: "⬅️ Back", callback_data: `/template ${argument} ${locale}` }]] });
+                if (!shown) {
+                    await sendTelegramMessage(chat_id, "⚠️ Telegram could not display this text (broken Markdown). Edit or reset it.", env);
+                }
+                break;
+            }
+
+            case '/template_edit': {
+                const locale = parts[2] || DEFAULT_LOCALE;
+                if (!argument || !isMessageKey(argument) || !isLocale(locale)) break;
+                await setAdminPendingCommand(sender_id, '/edit_template', env, `${argument} ${locale}`);
+                await sendTelegramMessage(chat_id, `Please reply with the new *${LOCALE_NAMES[locale]}* text for \`${argument}\`.\n\nPlaceholders: ${getAllowedPlaceholders(argument).map(placeholder => `\`${placeholder}\``).join(' ')}\nYou will see a preview before anything is saved.`, env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+            }
+
+            case '/template_save':
+                await handleSaveTemplateDraft(chat_id, env);
+                break;
+
+            case '/reset_text': {
+                if (argument && parts[2]) await handleResetTextOverride(chat_id, argument, parts[2], env);
+                const menu = await getTemplateMenu(env);
+                await sendTelegramMessage(chat_id, menu.text, env, menu.markup); // Show the updated list
+                break;
+            }
+
+            case '/set_text_flow':
+                await setAdminPendingCommand(sender_id, '/set_text', env);
+                await editTelegramMessage(chat_id, query.message.message_id, `Please reply with *KEY | locale | text* (locales: ${LOCALES.join(', ')}).\n\nExample: \`RENEW_HINT | am | 🔄 ...\`\nYou will see a preview before anything is saved.`, env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+
+            case '/text_keys': {
+                const keyList = (Object.keys(MESSAGES_EN) as MessageKey[]).map(key => `\`${key}\``).join('\n');
+                await sendTelegramMessage(chat_id, `📋 *Text Keys*\n\n${keyList}`, env, { inline_keyboard: [[{ text: "⬅️ Back to Templates", callback_data: "/manage_templates" }]] });
+                break;
+            }
+
+            case '/manage_channels': {
+                const menu = await getChannelManagementMenu(env);
+                if (message_id) {
+                    await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                } else {
+                    await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
+                }
+                break;
+            }
+
+            case '/remove_channel': {
+                if (argument) await handleRemoveChannel(chat_id, argument, env);
+                const menu = await getChannelManagementMenu(env);
+                await sendTelegramMessage(chat_id, menu.text, env, menu.markup); // Show the updated list
+                break;
+            }
+
+            // Buttons under a proof photo/document can't be edited into the text list; send a new one instead
             case '/approve':
                 if (argument) await handleApprovePayment(chat_id, argument, env);
-                await handleReviewPayments(chat_id, env, message_id); // Refresh the review list in-place if possible
+                await handleReviewPayments(chat_id, env, query.message?.text ? message_id : undefined); // Refresh the review list in-place if possible
+                break;
+
+            case '/reject': {
+                // Ask for the reason first; the rejection happens on /reject_reason or the free-text reply
+                if (!argument) break;
+                const menu = getRejectReasonMenu(argument);
+                await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/reject_reason':
+                if (argument && parts[2] && REJECTION_REASONS[parts[2]]) {
+                    // The preset reason is stored and sent in the user's language
+                    const userTexts = await getUserTexts(argument, env);
+                    await handleRejectPayment(chat_id, argument, env, userTexts(REJECTION_REASONS[parts[2]]));
+                }
+                await handleReviewPayments(chat_id, env, message_id); // Replace the reason picker with the updated list
                 break;
 
-            case '/reject':
-                if (argument) await handleRejectPayment(chat_id, argument, env);
-                await handleReviewPayments(chat_id, env, message_id); // Refresh the review list in-place
+            case '/reject_custom':
+                if (!argument) break;
+                await setAdminPendingCommand(sender_id, '/reject_with_reason', env, argument);
+                await editTelegramMessage(chat_id, query.message.message_id, `Please reply with the *reason* User ID \`${argument}\` will see.`, env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
                 break;
 
             case '/revoke_access':
-                if (argument) await handleRevokeAccess(chat_id, argument, env);
+                if (argument) await handleRevokeAccess(chat_id, argument, env, parts[2]);
                 await handleListApprovedUsers(chat_id, env, message_id); // Refresh the approved list in-place
                 break;
 
+            case '/ban_menu': {
+                if (!argument || !parts[2]) break;
+                const menu = getBanDurationMenu(argument, parts[2]);
+                await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/ban_access': {
+                // /ban_access <user> <days, PERMANENT_BAN for good> <channel>
+                const banDays = parseInt(parts[2], 10);
+                if (argument && (banDays === PERMANENT_BAN || BAN_DURATION_DAYS.includes(banDays))) {
+                    await handleRevokeAccess(chat_id, argument, env, parts[3], banDays);
+                }
+                await handleListApprovedUsers(chat_id, env, message_id);
+                break;
+            }
+
+            case '/view_proof':
+                if (argument) await handleViewProof(chat_id, argument, env);
+                break;
+
             case '/review_payments':
-                await handleReviewPayments(chat_id, env, message_id);
+                await handleReviewPayments(chat_id, env, message_id, parseInt(argument || '0', 10) || 0);
                 break;
 
             case '/list_approved':
-                await handleListApprovedUsers(chat_id, env, message_id);
+                await handleListApprovedUsers(chat_id, env, message_id, hasPermission(senderRole, '/revoke_access'));
                 break;
 
             case '/whoisadmin':
@@ -1032,17 +4250,17 @@ async function handleCallbackQuery(query: any, env: Env) {
                     await editTelegramMessage(chat_id, message_id, "🚫 Operation cancelled.", env);
                     // Re-show admin menu after a short delay or immediately append it? 
                     // Better to just show the menu.
-                    const menu = await getAdminMenu(env);
+                    const menu = await getAdminMenu(env, senderRole);
                     await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
                 } else {
                     await sendTelegramMessage(chat_id, "🚫 Operation cancelled.", env);
-                    const menu = await getAdminMenu(env);
+                    const menu = await getAdminMenu(env, senderRole);
                     await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
                 }
                 break;
 
             case '/list_users':
-                await handleListAllUsers(chat_id, env);
+                await handleListAllUsers(chat_id, env, parseInt(argument || '0', 10) || 0, argument ? message_id : undefined);
                 break;
 
             case '/remove_admin_flow': // Button click to start admin list for removal
@@ -1060,26 +4278,144 @@ async function handleCallbackQuery(query: any, env: Env) {
                 await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Channel ID* (e.g., `-100xxxxxxxxxx`) you want to set.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
                 break;
 
-            case '/set_payment_amount_flow':
-                await setAdminPendingCommand(sender_id, '/set_payment_amount', env);
-                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Payment Amount* in ETB (e.g., `100` or `99.99`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+            case '/set_payment_amount_flow':
+                await setAdminPendingCommand(sender_id, '/set_payment_amount', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Payment Amount* in ETB (e.g., `100` or `99.99`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+
+            case '/set_payment_phone_flow':
+                await setAdminPendingCommand(sender_id, '/set_payment_phone', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Payment Phone Number* (e.g., `+2519xxxxxxxx` or `09xxxxxxxx`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+            case '/add_plan_flow': {
+                // With several channels, ask which one the plan is for first
+                const channels = await getChannels(env);
+                if (channels.length > 1 && !argument) {
+                    const channelButtons = channels.map(channel => [{ text: channel.name, callback_data: `/add_plan_flow ${channel.id}` }]);
+                    channelButtons.push([{ text: "❌ Cancel", callback_data: "/cancel" }]);
+                    await editTelegramMessage(chat_id, query.message.message_id, "Which channel is the new plan for?", env, { inline_keyboard: channelButtons });
+                    break;
+                }
+                // The default channel is stored as "no channel" so plans follow Set Channel ID
+                const planChannelId = argument && argument !== channels[0]?.id ? argument : undefined;
+                await setAdminPendingCommand(sender_id, '/add_plan', env, planChannelId);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the new plan as *Name | Days | Price* (e.g., `3 Months | 90 | 1400`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+            }
+            case '/add_channel_flow':
+                await setAdminPendingCommand(sender_id, '/add_channel', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the channel as *ChannelID | Name* (e.g., `-1001234567890 | VIP`). The bot must be an admin there.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+            case '/add_admin_flow':
+                await setAdminPendingCommand(sender_id, '/add_admin', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the numerical *User ID* and a role: *owner*, *reviewer* (approve/reject) or *support* (lists and invites), e.g. `123456789 reviewer`. Sending an existing admin's ID changes their role.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+
+            case '/invite_user_flow': { // Added a new utility button flow
+                // With several channels, ask which one the invite is for first
+                const channels = await getChannels(env);
+                if (channels.length > 1 && !argument) {
+                    const channelButtons = channels.map(channel => [{ text: channel.name, callback_data: `/invite_user_flow ${channel.id}` }]);
+                    channelButtons.push([{ text: "❌ Cancel", callback_data: "/cancel" }]);
+                    await editTelegramMessage(chat_id, query.message.message_id, "Which channel should the invite be for?", env, { inline_keyboard: channelButtons });
+                    break;
+                }
+                await setAdminPendingCommand(sender_id, '/invite_user', env, argument);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Recipient's Numerical Telegram User ID* to send the invite link to.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+            }
+            case '/check_expired_subscriptions':
+                await handleCheckExpiredSubscriptions(chat_id, env);
+                break;
+
+            case '/broadcast_flow':
+                await setAdminPendingCommand(sender_id, '/broadcast_message', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please send the *message to broadcast*: text, photo, video or document, or forward one here. It is copied to users exactly as sent.\n\nYou will pick the recipients next.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+                break;
+
+            case '/broadcast_segments': {
+                await clearAdminPendingCommand(sender_id, env); // Back from the "number of days" prompt
+                const menu = getBroadcastSegmentMenu();
+                await editTelegramMessage(chat_id, query.message.message_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/broadcast_segment':
+                if (argument) await handleBroadcastSegment(chat_id, sender_id, argument, parseInt(parts[2], 10) || undefined, env, message_id);
+                break;
+
+            case '/broadcast_days_flow':
+                await setAdminPendingCommand(sender_id, '/broadcast_days', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *number of days*: users whose access expires within that many days get the message (e.g., `14`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/broadcast_segments" }]] });
+                break;
+
+            case '/broadcast_send':
+                await handleStartBroadcast(chat_id, sender_id, env, message_id);
+                break;
+
+            case '/broadcast_discard':
+                await clearBroadcastDraft(sender_id, env);
+                await editTelegramMessage(chat_id, query.message.message_id, "🚫 Broadcast discarded.", env);
+                break;
+
+            case '/broadcast_status':
+                if (argument) await handleBroadcastStatus(chat_id, argument, env, message_id);
+                break;
+
+            case '/broadcast_cancel':
+                if (argument) await handleCancelBroadcast(chat_id, argument, env, message_id);
+                break;
+
+            case '/link_guard': {
+                const menu = await getLinkGuardMenu(env);
+                await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/set_link_guard': {
+                const before = await getLinkGuardMode(env);
+                if (argument && Object.values(LINK_GUARD_MODE).includes(argument) && argument !== before) {
+                    await setLinkGuardMode(argument, env);
+                    await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_LINK_GUARD, before, after: argument }, env);
+                }
+                const menu = await getLinkGuardMenu(env);
+                await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/access_mode': {
+                const menu = await getAccessModeMenu(env);
+                await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
+                break;
+            }
+
+            case '/set_access_mode': {
+                const before = await getAccessMode(env);
+                if (argument && Object.values(ACCESS_MODE).includes(argument) && argument !== before) {
+                    await setAccessMode(argument, env);
+                    await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.SET_ACCESS_MODE, before, after: argument }, env);
+                }
+                const menu = await getAccessModeMenu(env);
+                await editTelegramMessage(chat_id, message_id, menu.text, env, menu.markup);
                 break;
+            }
 
-            case '/set_payment_phone_flow':
-                await setAdminPendingCommand(sender_id, '/set_payment_phone', env);
-                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Payment Phone Number* (e.g., `+2519xxxxxxxx` or `09xxxxxxxx`).", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+            case '/remove_member':
+                if (argument && parts[2]) await handleRemoveMember(chat_id, argument, parts[2], env);
                 break;
-            case '/add_admin_flow':
-                await setAdminPendingCommand(sender_id, '/add_admin', env);
-                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the numerical *User ID* you want to add as an admin.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+
+            case '/audit_log':
+                await handleAuditLog(chat_id, env, parseInt(argument || '0', 10) || 0, parts[2], parts[3], message_id);
                 break;
 
-            case '/invite_user_flow': // Added a new utility button flow
-                await setAdminPendingCommand(sender_id, '/invite_user', env);
-                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Recipient's Numerical Telegram User ID* to send the invite link to.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
+            case '/audit_filter_admin_flow':
+                await setAdminPendingCommand(sender_id, '/audit_filter_admin', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *Admin User ID* whose actions you want to see.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
                 break;
-            case '/check_expired_subscriptions':
-                await handleCheckExpiredSubscriptions(chat_id, env);
+
+            case '/audit_filter_user_flow':
+                await setAdminPendingCommand(sender_id, '/audit_filter_user', env);
+                await editTelegramMessage(chat_id, query.message.message_id, "Please reply with the *User ID* whose history you want to see.", env, { inline_keyboard: [[{ text: "❌ Cancel", callback_data: "/cancel" }]] });
                 break;
 
             default:
@@ -1096,18 +4432,125 @@ async function handleCallbackQuery(query: any, env: Env) {
 
         if (flowResponse) {
             // Edit the message to remove the button after successful confirmation
-            const originalMessageText = query.message.text;
-            const url = `https://api.telegram.org/bot${env.BOT_TOKEN}/editMessageText`;
-            const payload = {
-                chat_id: chat_id,
-                message_id: query.message.message_id,
-                text: `${PENDING_ADMIN}`,
-                parse_mode: 'Markdown',
-                reply_markup: { inline_keyboard: [] } // Remove buttons
-            };
-            await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) });
+            const t = await getUserTexts(sender_id, env);
+            await editTelegramMessage(chat_id, query.message.message_id, t('PENDING_ADMIN'), env, { inline_keyboard: [] }); // Remove buttons
         }
     }
+    // --- Regular User Renew Button (from expiry reminders) ---
+    else if (command === '/resubmit') {
+        await handleResubmit(chat_id, sender_id, env);
+    }
+    else if (command === '/checkout') {
+        await handleCheckoutRequest(chat_id, sender_id, env);
+    }
+    else if (command === '/renew') {
+        await handleRenewRequest(chat_id, sender_id, env);
+    }
+    // --- Regular User Plan Buttons ---
+    else if (command === '/choose_plan') {
+        if (argument) await handleChoosePlan(chat_id, sender_id, argument, env);
+    }
+    // --- Regular User Language Buttons (from /language) ---
+    else if (command === '/set_language') {
+        if (argument) await handleSetLanguage(chat_id, query.from, argument, message_id, env);
+    }
+    // --- Anything else is an admin button pressed by a non-admin (e.g. a removed admin's old menu) ---
+    else {
+        console.warn(`Denied admin callback ${command} from non-admin ${sender_id}`);
+        await recordAudit({ actorId: sender_id.toString(), action: AUDIT_ACTION.DENIED, targetId: argument, after: command }, env);
+        const t = await getUserTexts(sender_id, env);
+        await sendTelegramMessage(chat_id, t('NOT_AN_ADMIN'), env);
+    }
+}
+
+// Handles /language: one button per catalog locale
+async function handleLanguageCommand(chat_id: number, sender_id: number, env: Env) {
+    const t = await getUserTexts(sender_id, env);
+    const markup = { inline_keyboard: LOCALES.map(locale => [{ text: LOCALE_NAMES[locale], callback_data: `/set_language ${locale}` }]) };
+    await sendTelegramMessage(chat_id, t('LANGUAGE_PROMPT'), env, markup);
+}
+
+// Handles a language button: stores the choice on the user's profile and confirms in the new language
+async function handleSetLanguage(chat_id: number, from: any, code: string, message_id: number | undefined, env: Env) {
+    if (!isLocale(code)) return;
+    const userIdString = from.id.toString();
+    const profile = await getUserProfile(userIdString, env)
+        || { id: userIdString, displayName: getDisplayNameFromUser(from), registeredAt: Date.now() };
+    await setUserProfile({ ...profile, language: code }, env);
+
+    const t = await getUserTexts(userIdString, env);
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, t('LANGUAGE_SET'), env);
+    } else {
+        await sendTelegramMessage(chat_id, t('LANGUAGE_SET'), env);
+    }
+}
+
+// Handles /renew (and the "Renew" button on expiry reminders): starts a payment that
+// extends the active subscription instead of replacing it
+async function handleRenewRequest(chat_id: number, sender_id: number, env: Env) {
+    const t = await getUserTexts(sender_id, env);
+    const activeSubscriptions = (await getUserSubscriptions(sender_id, env))
+        .filter(subscription => subscription.status === SUBSCRIPTION_STATUS.ACTIVE);
+    if (activeSubscriptions.length === 0) {
+        await sendTelegramMessage(chat_id, t('NO_ACTIVE_SUBSCRIPTION'), env);
+        return;
+    }
+
+    const currentState = await getUserState(sender_id, env);
+    if (currentState && (currentState.status === STATE.PENDING_CONFIRMATION || currentState.status === STATE.PENDING_ADMIN_REVIEW)) {
+        await sendTelegramMessage(chat_id, t('ALREADY_SENT'), env);
+        return;
+    }
+
+    const channels = await getChannels(env);
+    let renewMessage = t('RENEW_TITLE');
+    for (const subscription of activeSubscriptions) {
+        const channelLabel = channels.length > 1 ? ` (${getChannelName(channels, subscription.channelId)})` : '';
+        renewMessage += t('RENEW_CURRENT_ACCESS', { channel: channelLabel, date: formatDate(subscription.expiresAt) });
+    }
+
+    // Only plans for channels the user is subscribed to can be renewals
+    const defaultChannelId = await getChannelId(env);
+    const activeChannelIds = activeSubscriptions.map(subscription => subscription.channelId);
+    const plans = (await getPlans(env)).filter(plan => activeChannelIds.includes(plan.channelId || defaultChannelId || ''));
+    if (plans.length > 0) {
+        await setUserState(sender_id, { status: STATE.WAITING_FOR_PLAN, timestamp: Date.now(), isRenewal: true }, env);
+        renewMessage += t('RENEW_PLAN_NOTE');
+        const planChoice = getPlanChoiceMessage(t, plans, channels);
+        await sendTelegramMessage(chat_id, renewMessage + planChoice.text, env, planChoice.markup);
+        return;
+    }
+
+    // Without plans the renewal extends the subscription that expires first
+    const renewed = activeSubscriptions.reduce((soonest, subscription) => subscription.expiresAt < soonest.expiresAt ? subscription : soonest);
+    await setUserState(sender_id, { status: STATE.WAITING_FOR_PHONE, timestamp: Date.now(), isRenewal: true, renewChannelId: renewed.channelId }, env);
+    renewMessage += t('RENEW_DAYS_NOTE', { days: MONTH_IN_MS / DAY_IN_MS });
+    renewMessage += await getPaymentReminderText(env, t);
+    await sendTelegramMessage(chat_id, renewMessage, env, getCheckoutMarkup(env, t));
+}
+
+// Handles a plan button: stores the plan on the user's state and sends the payment steps
+async function handleChoosePlan(chat_id: number, sender_id: number, planId: string, env: Env) {
+    const t = await getUserTexts(sender_id, env);
+    const currentState = await getUserState(sender_id, env);
+    if (!currentState || (currentState.status !== STATE.WAITING_FOR_PLAN && currentState.status !== STATE.WAITING_FOR_PHONE)) {
+        await sendTelegramMessage(chat_id, t('CHOOSE_PLAN_NEEDS_START'), env);
+        return;
+    }
+
+    const plan = (await getPlans(env)).find(p => p.id === planId);
+    if (!plan) {
+        const planChoice = getPlanChoiceMessage(t, await getPlans(env), await getChannels(env));
+        await sendTelegramMessage(chat_id, `${t('PLAN_UNAVAILABLE')}${planChoice.text}`, env, planChoice.markup);
+        return;
+    }
+
+    await setUserState(sender_id, { status: STATE.WAITING_FOR_PHONE, timestamp: Date.now(), isRenewal: currentState.isRenewal, plan: plan }, env);
+
+    const channels = await getChannels(env);
+    const stepsText = currentState.isRenewal ? await getPaymentReminderText(env, t, plan, channels) : await getPaymentStepsText(env, t, plan, channels);
+    await sendTelegramMessage(chat_id, stepsText, env, getCheckoutMarkup(env, t));
 }
 
 
@@ -1115,66 +4558,177 @@ async function handleCallbackQuery(query: any, env: Env) {
 // 10. ADMIN COMMAND IMPLEMENTATIONS
 // =========================================================
 
-async function handleCheckExpiredSubscriptions(chat_id: number, env: Env) {
-    await sendTelegramMessage(chat_id, "⏳ Checking for expired subscriptions... This might take a moment.", env);
+// Revokes every APPROVED user whose subscription period has elapsed.
+// Shared by the admin "Check Expired" button and the scheduled Cron Trigger.
+async function revokeExpiredSubscriptions(chat_id: number | null, env: Env): Promise<string[]> {
+    await migrateLegacyUserRegistry(env);
+    await migrateLegacyApprovedStates(env);
 
-    const approvedUsers = await getUsersInState(STATE.APPROVED, env);
+    const activeSubscriptions = await getActiveSubscriptions(env);
+    const channels = await getChannels(env);
     const now = Date.now();
-    const MONTH_IN_MS = 30 * 24 * 60 * 60 * 1000;
-
-    let revokedCount = 0;
     const revokedUsers: string[] = [];
 
-    for (const user of approvedUsers) {
-        if (now - user.state.timestamp > MONTH_IN_MS) {
-            await handleRevokeAccess(chat_id, user.id, env);
-            revokedCount++;
-            revokedUsers.push(`- ${user.displayName} (\`${user.id}\`)`);
+    for (const subscription of activeSubscriptions) {
+        if (subscription.expiresAt <= now) {
+            const userIdString = subscription.userId.toString();
+            const revoked = await handleRevokeAccess(chat_id, userIdString, env, subscription.channelId);
+            if (revoked) {
+                const displayName = await getUserDisplayDetails(subscription.userId, env);
+                const channelLabel = channels.length > 1 ? ` — ${getChannelName(channels, subscription.channelId)}` : '';
+                revokedUsers.push(`- ${displayName} (\`${userIdString}\`)${channelLabel}`);
+            }
         }
     }
+    return revokedUsers;
+}
 
-    let reportMessage = `✅ Subscription Check Complete.\n\n*${revokedCount}* user(s) had their access revoked.`;
-    if (revokedCount > 0) {
+function formatExpiryReport(title: string, revokedUsers: string[]): string {
+    let reportMessage = `${title}\n\n*${revokedUsers.length}* user(s) had their access revoked.`;
+    if (revokedUsers.length > 0) {
         reportMessage += `\n\n*Revoked Users:*\n${revokedUsers.join('\n')}`;
     }
+    return reportMessage;
+}
+
+async function handleCheckExpiredSubscriptions(chat_id: number, env: Env) {
+    await sendTelegramMessage(chat_id, "⏳ Checking for expired subscriptions... This might take a moment.", env);
+
+    const revokedUsers = await revokeExpiredSubscriptions(chat_id, env);
+    const reportMessage = formatExpiryReport("✅ Subscription Check Complete.", revokedUsers);
 
     const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
     await sendTelegramMessage(chat_id, reportMessage, env, markup);
 }
 
+// DMs active subscribers whose access ends within one of the REMINDER_DAYS_BEFORE_EXPIRY windows.
+// Each window is recorded on the subscriber record so it is sent only once per period.
+async function sendExpiryReminders(env: Env): Promise<number> {
+    const activeSubscriptions = await getActiveSubscriptions(env);
+    const channels = await getChannels(env);
+    const overrides = await getTextOverrides(env);
+    const now = Date.now();
+    let remindersSent = 0;
+
+    for (const subscription of activeSubscriptions) {
+        const msRemaining = subscription.expiresAt - now;
+        if (msRemaining <= 0) continue;
+
+        const daysRemaining = Math.ceil(msRemaining / DAY_IN_MS);
+        // Pick the closest window we are inside of; a missed earlier window is not sent late
+        const dueWindows = REMINDER_DAYS_BEFORE_EXPIRY.filter(days => daysRemaining <= days);
+        if (dueWindows.length === 0) continue;
+        const reminderWindow = Math.min(...dueWindows);
+
+        const alreadySent = subscription.remindersSent || [];
+        if (alreadySent.includes(reminderWindow)) continue;
+
+        const t = await getUserTexts(subscription.userId, env, overrides);
+        const channelLabel = channels.length > 1 ? ` (${getChannelName(channels, subscription.channelId)})` : '';
+        let reminderMessage = t('EXPIRY_REMINDER', { channel: channelLabel, days_left: daysRemaining, date: formatDate(subscription.expiresAt) });
+        // Quote the current price of the subscriber's plan, if it still exists
+        const currentPlan = subscription.plan ? (await getPlans(env)).find(p => p.id === subscription.plan?.id) : undefined;
+        reminderMessage += await getPaymentReminderText(env, t, currentPlan, channels);
+        reminderMessage += t('EXPIRY_REMINDER_ACTION');
+        const markup = { inline_keyboard: [[{ text: t('BUTTON_RENEW'), callback_data: "/renew" }]] };
+
+        const delivered = await sendTelegramMessage(subscription.userId, reminderMessage, env, markup);
+        if (delivered) {
+            await setSubscription({ ...subscription, remindersSent: [...alreadySent, reminderWindow] }, env);
+            remindersSent++;
+        }
+    }
+    return remindersSent;
+}
+
+// Runs from the Cron Trigger: revokes expired users silently, sends expiry reminders,
+// then sends one summary to every admin
+async function handleScheduledExpiryCheck(env: Env) {
+    const revokedUsers = await revokeExpiredSubscriptions(null, env);
+    const remindersSent = await sendExpiryReminders(env);
+    let reportMessage = formatExpiryReport("🗓️ *Daily Subscription Check*", revokedUsers);
+    reportMessage += `\n\n*${remindersSent}* expiry reminder(s) sent.`;
+
+    const adminIds = await getAdminIds(env);
+    await Promise.all(adminIds.map(adminId =>
+        sendTelegramMessage(parseInt(adminId, 10), reportMessage, env)
+    ));
+    console.log(`[CRON] Expiry check complete. Revoked ${revokedUsers.length} user(s), sent ${remindersSent} reminder(s).`);
+}
+
 async function handleUserStatusCommand(chat_id: number, sender_id: number, env: Env) {
+    const t = await getUserTexts(sender_id, env);
     const currentState = await getUserState(sender_id, env);
-    let statusMessage = USER_STATUS_MESSAGE + "\n\n";
-
-    if (!currentState) {
-        statusMessage += "❌ Not registered. Use `/start` to begin.";
+    const subscriptions = await getUserSubscriptions(sender_id, env);
+    const activeSubscriptions = subscriptions.filter(subscription => subscription.status === SUBSCRIPTION_STATUS.ACTIVE);
+    let statusMessage = t('STATUS_TITLE') + "\n\n";
+    let statusMarkup: any = undefined;
+
+    if (activeSubscriptions.length > 0) {
+        // Access is read from the durable subscriber records, not the expiring conversational state
+        const channels = await getChannels(env);
+        statusMessage += t('STATUS_LINE', { status: STATE.APPROVED });
+        for (const subscription of activeSubscriptions) {
+            const daysRemaining = Math.max(0, Math.ceil((subscription.expiresAt - Date.now()) / (1000 * 60 * 60 * 24)));
+            if (channels.length > 1) {
+                statusMessage += `\n📡 *${getChannelName(channels, subscription.channelId)}*\n`;
+            }
+            if (subscription.phone) {
+                statusMessage += t('PHONE_LINE', { phone: subscription.phone });
+            }
+            if (subscription.plan) {
+                statusMessage += t('PLAN_LINE', { plan: subscription.plan.name });
+            }
+            statusMessage += t('EXPIRES_LINE', { date: formatDate(subscription.expiresAt) });
+            statusMessage += t('DAYS_REMAINING_LINE', { days_left: daysRemaining });
+        }
+        if (currentState && currentState.isRenewal && currentState.status === STATE.PENDING_ADMIN_REVIEW) {
+            statusMessage += t('RENEWAL_PENDING_LINE');
+        }
+        statusMessage += `\n` + t('ALREADY_APPROVED');
+    } else if (!currentState && subscriptions.length > 0) {
+        statusMessage += t('STATUS_LINE', { status: STATE.REJECTED });
+        statusMessage += t('ACCESS_REVOKED');
+    } else if (!currentState) {
+        statusMessage += t('STATUS_NOT_REGISTERED');
     } else {
-        statusMessage += `*Status:* \`${currentState.status}\`\n`;
+        statusMessage += t('STATUS_LINE', { status: currentState.status });
         if (currentState.phone) {
-            statusMessage += `*Phone:* \`${currentState.phone}\`\n`;
+            statusMessage += t('PHONE_LINE', { phone: currentState.phone });
         }
         if (currentState.status === STATE.APPROVED) {
-            const timeSinceApproval = Date.now() - currentState.timestamp;
-            const daysSinceApproval = Math.floor(timeSinceApproval / (1000 * 60 * 60 * 24));
-            const daysRemaining = 30 - daysSinceApproval;
-            statusMessage += `*Days Remaining:* ${daysRemaining}\n`;
-            statusMessage += ALREADY_APPROVED;
+            // Approved state without an active subscriber record means access has ended
+            statusMessage += t('ACCESS_REVOKED');
         } else if (currentState.status === STATE.PENDING_ADMIN_REVIEW) {
-            statusMessage += PENDING_ADMIN;
+            statusMessage += t('PENDING_ADMIN');
         } else if (currentState.status === STATE.PENDING_CONFIRMATION) {
-            statusMessage += PROMPT_CONFIRM;
+            statusMessage += t('PROMPT_CONFIRM');
+        } else if (currentState.status === STATE.WAITING_FOR_PLAN) {
+            statusMessage += t('STATUS_CHOOSE_PLAN');
+        } else if (currentState.status === STATE.WAITING_FOR_PROOF) {
+            statusMessage += t('STATUS_SEND_PROOF');
         } else if (currentState.status === STATE.WAITING_FOR_PHONE) {
-            statusMessage += `📲 Step 2: *Now, please send the phone number you paid from.* Supported formats: \`+2519xxxxxxxx\` or \`09xxxxxxxx\`.`;
+            statusMessage += t('STATUS_SEND_PHONE');
+        } else if (currentState.status === STATE.REJECTED && currentState.rejectionReason) {
+            statusMessage += `${t('PAYMENT_REJECTED_WITH_REASON')}\n${t('REASON_LINE', { reason: escapeMarkdown(currentState.rejectionReason) })}\n\n${t('RESUBMIT_HINT')}`;
+            statusMarkup = { inline_keyboard: [[{ text: t('BUTTON_RESUBMIT'), callback_data: "/resubmit" }]] };
         } else if (currentState.status === STATE.REJECTED) {
-            statusMessage += ACCESS_REVOKED;
+            statusMessage += t('ACCESS_REVOKED');
         }
     }
-    await sendTelegramMessage(chat_id, statusMessage, env);
+    await sendTelegramMessage(chat_id, statusMessage, env, statusMarkup);
 }
 
 
-async function handleReviewPayments(chat_id: number, env: Env, message_id?: number) {
-    const pendingUsers = await getUsersInState(STATE.PENDING_ADMIN_REVIEW, env);
+async function handleReviewPayments(chat_id: number, env: Env, message_id?: number, page: number = 0) {
+    await migrateLegacyUserRegistry(env);
+    const { users: pendingUsers, hasMore } = await getUsersInState(STATE.PENDING_ADMIN_REVIEW, env, page);
+
+    if (pendingUsers.length === 0 && page > 0) {
+        // The last page emptied out (e.g. after approving its only entry); go back to the first
+        await handleReviewPayments(chat_id, env, message_id, 0);
+        return;
+    }
 
     if (pendingUsers.length === 0) {
         const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
@@ -1186,15 +4740,41 @@ async function handleReviewPayments(chat_id: number, env: Env, message_id?: numb
         return;
     }
 
-    const reviewList = pendingUsers.map(user =>
-        `*User:* ${user.displayName}\n*ID:* \`${user.id}\`\n*Phone:* \`${user.state.phone || 'N/A'}\``
-    ).join('\n---\n');
+    const channels = await getChannels(env);
+
+    // New sign-ups and renewals are listed in separate sections
+    const newSignups = pendingUsers.filter(user => !user.state.isRenewal);
+    const renewals = pendingUsers.filter(user => user.state.isRenewal);
+
+    const formatEntry = (user: typeof pendingUsers[number]) =>
+        `*User:* ${user.displayName}\n*ID:* \`${user.id}\`\n*Phone:* \`${user.state.phone || 'N/A'}\`` +
+        (user.state.plan ? `\n*Plan:* ${formatPlan(user.state.plan, channels)}` : '') +
+        `\n*Proof:* ${describePaymentProof(user.state.proof)}`;
+
+    let reviewList = '';
+    if (newSignups.length > 0) {
+        reviewList += `🆕 *New Sign-ups (${newSignups.length}):*\n\n${newSignups.map(formatEntry).join('\n---\n')}`;
+    }
+    if (renewals.length > 0) {
+        if (reviewList) reviewList += '\n\n';
+        reviewList += `🔄 *Renewals (${renewals.length}):*\n\n${renewals.map(formatEntry).join('\n---\n')}`;
+    }
 
     // Generate dynamic inline buttons for each user - BUTTON TEXT SIMPLIFIED
-    const buttons = pendingUsers.map(user => [
-        { text: `✅ Approve ${user.displayName}`, callback_data: `/approve ${user.id}` },
-        { text: `❌ Reject ${user.displayName}`, callback_data: `/reject ${user.id}` }
-    ]);
+    const buttons = [...newSignups, ...renewals].map(user => {
+        const label = user.state.isRenewal ? `🔄 ${user.displayName}` : user.displayName;
+        const row = [
+            { text: `✅ Approve ${label}`, callback_data: `/approve ${user.id}` },
+            { text: `❌ Reject ${label}`, callback_data: `/reject ${user.id}` }
+        ];
+        if (user.state.proof) row.push({ text: `🧾 Proof`, callback_data: `/view_proof ${user.id}` });
+        return row;
+    });
+
+    const pageButtons: any[] = [];
+    if (page > 0) pageButtons.push({ text: "⬅️ Previous", callback_data: `/review_payments ${page - 1}` });
+    if (hasMore) pageButtons.push({ text: "Next ➡️", callback_data: `/review_payments ${page + 1}` });
+    if (pageButtons.length > 0) buttons.push(pageButtons);
 
     buttons.push([{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]);
 
@@ -1207,8 +4787,33 @@ async function handleReviewPayments(chat_id: number, env: Env, message_id?: numb
     }
 }
 
-async function handleListApprovedUsers(chat_id: number, env: Env, message_id?: number) {
-    const approvedUsers = await getUsersInState(STATE.APPROVED, env);
+// Sends a pending user's proof of payment to the admin, with Approve/Reject buttons next to it
+async function handleViewProof(chat_id: number, targetUserIdString: string, env: Env) {
+    const state = await getUserState(parseInt(targetUserIdString, 10), env);
+    if (!state || state.status !== STATE.PENDING_ADMIN_REVIEW || !state.proof) {
+        await sendTelegramMessage(chat_id, `⚠️ No pending proof of payment for User ID \`${targetUserIdString}\`.`, env);
+        return;
+    }
+
+    const displayName = await getStoredDisplayName(targetUserIdString, env);
+    const caption = `🧾 *Proof of payment*\n*User:* ${displayName} (\`${targetUserIdString}\`)\n*Phone:* \`${state.phone || 'N/A'}\``;
+    const markup = {
+        inline_keyboard: [
+            [{ text: "✅ Approve", callback_data: `/approve ${targetUserIdString}` },
+            { text: "❌ Reject", callback_data: `/reject ${targetUserIdString}` }]
+        ]
+    };
+    await sendPaymentProof(chat_id, state.proof, caption, env, markup);
+}
+
+// canRevoke: show the Revoke buttons (hidden for roles that may only view the list)
+async function handleListApprovedUsers(chat_id: number, env: Env, message_id?: number, canRevoke: boolean = true) {
+    const activeSubscriptions = await getActiveSubscriptions(env);
+    const approvedUsers = await Promise.all(activeSubscriptions.map(async subscription => ({
+        id: subscription.userId.toString(),
+        subscription,
+        displayName: await getStoredDisplayName(subscription.userId, env),
+    })));
 
     if (approvedUsers.length === 0) {
         const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
@@ -1220,14 +4825,23 @@ async function handleListApprovedUsers(chat_id: number, env: Env, message_id?: n
         return;
     }
 
+    const channels = await getChannels(env);
+    const showChannel = channels.length > 1;
+
     const approvedList = approvedUsers.map(user =>
-        `*User:* ${user.displayName}\n*ID:* \`${user.id}\``
+        `*User:* ${user.displayName}\n*ID:* \`${user.id}\`` +
+        (showChannel ? `\n*Channel:* ${getChannelName(channels, user.subscription.channelId)}` : '') +
+        `\n*Expires:* ${formatDate(user.subscription.expiresAt)}`
     ).join('\n---\n');
 
     // Generate dynamic inline buttons for each user - BUTTON TEXT SIMPLIFIED
-    const buttons = approvedUsers.map(user =>
-        [{ text: `� Revoke ${user.displayName}`, callback_data: `/revoke_access ${user.id}` }]
-    );
+    const buttons = !canRevoke ? [] : approvedUsers.map(user => {
+        const channelLabel = showChannel ? ` (${getChannelName(channels, user.subscription.channelId)})` : '';
+        return [
+            { text: `� Revoke ${user.displayName}${channelLabel}`, callback_data: `/revoke_access ${user.id} ${user.subscription.channelId}` },
+            { text: "⛔ Ban", callback_data: `/ban_menu ${user.id} ${user.subscription.channelId}` },
+        ];
+    });
 
     // Add back button
     buttons.push([{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]);
@@ -1242,13 +4856,13 @@ async function handleListApprovedUsers(chat_id: number, env: Env, message_id?: n
 
 // Displays list of admins with a remove button next to each
 async function handleListAdminsForRemoval(chat_id: number, env: Env) {
-    const adminIds = await getAdminIds(env);
+    const admins = await getAdmins(env);
     const selfId = chat_id.toString();
 
     let buttons: any[] = [];
 
     // Only list other admins for removal
-    const targetAdmins = adminIds.filter(id => id !== selfId);
+    const targetAdmins = admins.filter(admin => admin.id !== selfId);
 
     if (targetAdmins.length === 0) {
         const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
@@ -1256,16 +4870,15 @@ async function handleListAdminsForRemoval(chat_id: number, env: Env) {
         return;
     }
 
-    const detailsPromises = targetAdmins.map(async idString => {
-        const id = parseInt(idString, 10);
-        const displayName = await getUserDisplayDetails(id, env);
-        return { id: idString, displayName: displayName };
+    const detailsPromises = targetAdmins.map(async admin => {
+        const displayName = await getUserDisplayDetails(parseInt(admin.id, 10), env);
+        return { id: admin.id, role: admin.role, displayName: displayName };
     });
 
     const adminDetails = await Promise.all(detailsPromises);
 
     const adminListText = adminDetails.map(user =>
-        `*Admin:* ${user.displayName} (*ID*: \`${user.id}\`)`
+        `*Admin:* ${user.displayName} (*ID*: \`${user.id}\`, *Role*: ${user.role})`
     ).join('\n');
 
     buttons = adminDetails.map(user =>
@@ -1283,8 +4896,8 @@ async function handleListAdminsForRemoval(chat_id: number, env: Env) {
 
 
 async function handleWhoIsAdmin(chat_id: number, env: Env, message_id?: number) {
-    const adminIds = await getAdminIds(env);
-    const adminList = adminIds.map(id => `- \`${id}\``).join('\n');
+    const admins = await getAdmins(env);
+    const adminList = admins.map(admin => `- \`${admin.id}\` (${admin.role})`).join('\n');
     const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
 
     if (message_id) {
@@ -1294,45 +4907,153 @@ async function handleWhoIsAdmin(chat_id: number, env: Env, message_id?: number)
     }
 }
 
-async function handleListAllUsers(chat_id: number, env: Env) {
-    const userIds = await getRegisteredUserIds(env);
+// Shows one page of the audit log. Filter is "a <adminId>" (actor) or "u <userId>" (target).
+async function handleAuditLog(chat_id: number, env: Env, page: number, filterType?: string, filterId?: string, message_id?: number) {
+    const filter = filterType === 'a' ? { actorId: filterId } : filterType === 'u' ? { targetId: filterId } : {};
+    const { entries, hasMore } = await getAuditLogPage(page, filter, env);
+
+    let text = `📜 *Audit Log* (page ${page + 1})`;
+    if (filterType === 'a') text += `\n_Admin:_ \`${filterId}\``;
+    if (filterType === 'u') text += `\n_Target:_ \`${filterId}\``;
+    text += '\n\n';
+
+    if (entries.length === 0) {
+        text += "No audit entries found.";
+    } else {
+        text += entries.map(entry => {
+            const target = entry.targetId ? ` → \`${entry.targetId}\`` : '';
+            const change = entry.change ? `\n    ${escapeMarkdown(entry.change)}` : '';
+            return `• ${formatDateTime(entry.timestamp)} \`${entry.actorId}\` *${escapeMarkdown(entry.action)}*${target}${change}`;
+        }).join('\n');
+    }
+
+    const filterSuffix = filterType && filterId ? ` ${filterType} ${filterId}` : '';
+    const pageButtons: any[] = [];
+    if (page > 0) pageButtons.push({ text: "⬅️ Newer", callback_data: `/audit_log ${page - 1}${filterSuffix}` });
+    if (hasMore) pageButtons.push({ text: "Older ➡️", callback_data: `/audit_log ${page + 1}${filterSuffix}` });
+
+    const buttons: any[] = [];
+    if (pageButtons.length > 0) buttons.push(pageButtons);
+    buttons.push([{ text: "👤 By Admin", callback_data: "/audit_filter_admin_flow" },
+    { text: "🎯 By User", callback_data: "/audit_filter_user_flow" }]);
+    if (filterSuffix) buttons.push([{ text: "🧹 Clear Filter", callback_data: "/audit_log 0" }]);
+    buttons.push([{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]);
+
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, text, env, { inline_keyboard: buttons });
+    } else {
+        await sendTelegramMessage(chat_id, text, env, { inline_keyboard: buttons });
+    }
+}
+
+async function handleListAllUsers(chat_id: number, env: Env, page: number = 0, message_id?: number) {
+    await migrateLegacyUserRegistry(env);
+    const { users, hasMore } = await listUserIndexPage(USER_PROFILE_PREFIX, page, env);
 
-    if (userIds.length === 0) {
+    if (users.length === 0 && page === 0) {
         const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
         await sendTelegramMessage(chat_id, "⚠️ User registry is empty. Users must send the \`/start\` command to register.", env, markup);
         return;
     }
 
-    const detailsPromises = userIds.map(async idString => {
-        const id = parseInt(idString, 10);
-        const displayName = await getUserDisplayDetails(id, env);
-        const state = await getUserState(id, env);
-        return { id: idString, displayName: displayName, status: state?.status || 'N/A' };
-    });
+    const userListText = users.map(user =>
+        `*Display:* ${user.displayName}\n*ID:* \`${user.id}\` (*Status: ${user.status || 'N/A'}*)${user.blocked ? '\n🚫 Blocked the bot' : ''}${user.flagged ? '\n🚩 Flagged by the link guard' : ''}`
+    ).join('\n---\n');
 
-    const userDetails = await Promise.all(detailsPromises);
+    const responseMessage = `📊 *Registered Users (page ${page + 1}):*\n\n${userListText || 'No more users.'}`;
 
-    const userListText = userDetails.map(user =>
-        `*Display:* ${user.displayName}\n*ID:* \`${user.id}\` (*Status: ${user.status}*)`
-    ).join('\n---\n');
+    const pageButtons: any[] = [];
+    if (page > 0) pageButtons.push({ text: "⬅️ Previous", callback_data: `/list_users ${page - 1}` });
+    if (hasMore) pageButtons.push({ text: "Next ➡️", callback_data: `/list_users ${page + 1}` });
+    const buttons: any[] = pageButtons.length > 0 ? [pageButtons] : [];
+    buttons.push([{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]);
+    const markup = { inline_keyboard: buttons };
 
-    const responseMessage = `📊 *All Registered Users (${userIds.length}):*\n\n${userListText}`;
-    const markup = { inline_keyboard: [[{ text: "⬅️ Back to Admin Menu", callback_data: "/admin_menu" }]] };
+    if (message_id) {
+        await editTelegramMessage(chat_id, message_id, responseMessage, env, markup);
+    } else {
+        await sendTelegramMessage(chat_id, responseMessage, env, markup);
+    }
+}
 
-    await sendTelegramMessage(chat_id, responseMessage, env, markup);
+// Handles /claim_admin <code>: makes the sender the first admin of a fresh deployment.
+// Works only while no admin exists and ADMIN_SETUP_CODE matches, and only ever once.
+async function handleClaimAdmin(chat_id: number, sender_id: number, code: string, message_id: number | undefined, env: Env) {
+    // Don't leave the setup code sitting in the chat
+    if (message_id) await deleteTelegramMessage(chat_id, message_id, env);
+
+    const alreadyClaimed = await env.KV_BINDING.get(ADMIN_CLAIMED_KEY);
+    const adminIds = await getAdminIds(env);
+    if (alreadyClaimed || adminIds.length > 0) {
+        await sendTelegramMessage(chat_id, "🚫 Admin setup is already complete. Ask an existing admin to add you.", env);
+        return;
+    }
+    if (!env.ADMIN_SETUP_CODE) {
+        await sendTelegramMessage(chat_id, "🚫 Admin setup is not configured. Set the ADMIN\\_SETUP\\_CODE secret first.", env);
+        return;
+    }
+
+    const attemptsKey = CLAIM_ATTEMPTS_PREFIX + sender_id.toString();
+    const attempts = parseInt(await env.KV_BINDING.get(attemptsKey) || '0', 10);
+    if (attempts >= MAX_CLAIM_ATTEMPTS) {
+        await sendTelegramMessage(chat_id, "🚫 Too many attempts. Please try again later.", env);
+        return;
+    }
+
+    if (!code || !timingSafeEqual(code, env.ADMIN_SETUP_CODE)) {
+        await env.KV_BINDING.put(attemptsKey, (attempts + 1).toString(), { expirationTtl: 3600 });
+        await recordAudit({ actorId: sender_id.toString(), action: AUDIT_ACTION.CLAIM_ADMIN_DENIED }, env);
+        console.warn(`Invalid /claim_admin code from user ${sender_id}`);
+        await sendTelegramMessage(chat_id, "❌ Invalid setup code.", env);
+        return;
+    }
+
+    // Check and claim again under a lock, so two correct codes sent at once can't both win
+    const outcome = await withUserLock(ADMIN_CLAIMED_KEY, null, AUDIT_ACTION.CLAIM_ADMIN, env, 'BUSY', async () => {
+        if (await env.KV_BINDING.get(ADMIN_CLAIMED_KEY) || (await getAdminIds(env)).length > 0) return 'TAKEN';
+        if (!await setAdmins([{ id: sender_id.toString(), role: ADMIN_ROLE.OWNER }], env)) return 'FAILED';
+        await env.KV_BINDING.put(ADMIN_CLAIMED_KEY, JSON.stringify({ userId: sender_id, claimedAt: Date.now() }));
+        return 'CLAIMED';
+    });
+    if (outcome === 'BUSY') {
+        await sendTelegramMessage(chat_id, "⏳ Another admin claim is being processed. Please try again in a moment.", env);
+        return;
+    }
+    if (outcome === 'TAKEN') {
+        await sendTelegramMessage(chat_id, "🚫 Admin setup is already complete. Ask an existing admin to add you.", env);
+        return;
+    }
+    if (outcome === 'FAILED') {
+        await sendTelegramMessage(chat_id, "❌ Failed to save the admin list. Please try again.", env);
+        return;
+    }
+    await env.KV_BINDING.delete(attemptsKey);
+    await recordAudit({ actorId: sender_id.toString(), action: AUDIT_ACTION.CLAIM_ADMIN, targetId: sender_id.toString(), before: null, after: ADMIN_ROLE.OWNER }, env);
+
+    await sendTelegramMessage(chat_id, "👑 You are now the first admin. /claim\\_admin is disabled from now on.", env);
+    const menu = await getAdminMenu(env, ADMIN_ROLE.OWNER);
+    await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
 }
 
-// NEW: Diagnostic function to test channel connection
+// NEW: Diagnostic function to test channel connection (runs once per managed channel)
 async function handleTestChannel(chat_id: number, env: Env) {
-    const channelId = await getChannelId(env);
-    if (!channelId) {
+    const channels = await getChannels(env);
+    if (channels.length === 0) {
         await sendTelegramMessage(chat_id, "❌ No Channel ID set. Use /set_channel_id first.", env, undefined, null);
         return;
     }
 
-    await sendTelegramMessage(chat_id, `🔍 Diagnostic Test\nTesting connection to: ${channelId}...`, env, undefined, null);
+    for (const channel of channels) {
+        await runChannelDiagnostic(chat_id, channel, env);
+    }
+}
+
+async function runChannelDiagnostic(chat_id: number, channel: ChannelConfig, env: Env) {
+    const channelId = channel.id;
+
+    await sendTelegramMessage(chat_id, `🔍 Diagnostic Test\nTesting connection to: ${channel.name} (${channelId})...`, env, undefined, null);
 
-    let report = `📋 Diagnostic Report for ${channelId}\n\n`;
+    let report = `📋 Diagnostic Report for ${channel.name} (${channelId})\n\n`;
 
     // Try both numeric and string formats
     const channelFormats = [channelId];
@@ -1350,17 +5071,11 @@ async function handleTestChannel(chat_id: number, env: Env) {
 
     // 1. Test getChat with both formats
     for (const format of channelFormats) {
-        const chatUrl = `https://api.telegram.org/bot${env.BOT_TOKEN}/getChat`;
         const testId = format === channelId ? channelId : parseInt(format, 10);
 
         report += `\n--- Testing format: ${typeof testId === 'number' ? 'Numeric' : 'String'} ---\n`;
 
-        const chatResponse = await fetch(chatUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ chat_id: testId }),
-        });
-        const chatResult = await chatResponse.json();
+        const chatResult = await callTelegram<TelegramChat>('getChat', { chat_id: testId }, env);
 
         if (chatResult.ok) {
             report += `✅ Channel Found!\n`;
@@ -1371,8 +5086,8 @@ async function handleTestChannel(chat_id: number, env: Env) {
             break;  // Found it, no need to test other format
         } else {
             report += `❌ Failed\n`;
-            report += `Error: ${chatResult.description}\n`;
-            report += `Code: ${chatResult.error_code}\n`;
+            report += `Error: ${chatResult.error.description}\n`;
+            report += `Code: ${chatResult.error.code}\n`;
         }
     }
 
@@ -1392,9 +5107,7 @@ async function handleTestChannel(chat_id: number, env: Env) {
     }
 
     // 2. Test getMe (to get bot ID)
-    const meUrl = `https://api.telegram.org/bot${env.BOT_TOKEN}/getMe`;
-    const meResponse = await fetch(meUrl);
-    const meResult = await meResponse.json();
+    const meResult = await callTelegram<TelegramUser>('getMe', {}, env);
 
     if (meResult.ok) {
         const botId = meResult.result.id;
@@ -1405,13 +5118,7 @@ async function handleTestChannel(chat_id: number, env: Env) {
 
         // 3. Test getChatMember (Bot permissions)
         const testId = successFormat === channelId ? channelId : parseInt(successFormat, 10);
-        const memberUrl = `https://api.telegram.org/bot${env.BOT_TOKEN}/getChatMember`;
-        const memberResponse = await fetch(memberUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ chat_id: testId, user_id: botId }),
-        });
-        const memberResult = await memberResponse.json();
+        const memberResult = await callTelegram<TelegramChatMember>('getChatMember', { chat_id: testId, user_id: botId }, env);
 
         if (memberResult.ok) {
             const status = memberResult.result.status;
@@ -1430,13 +5137,50 @@ async function handleTestChannel(chat_id: number, env: Env) {
             }
         } else {
             report += `\n⚠️ Could not fetch bot permissions\n`;
-            report += `Error: ${memberResult.description}\n`;
+            report += `Error: ${memberResult.error.description}\n`;
         }
     }
 
     await sendTelegramMessage(chat_id, report, env, undefined, null);
 }
 
+// Formats getWebhookInfo for admins
+function formatWebhookInfo(info: TelegramWebhookInfo): string {
+    let report = `🔗 Webhook Info\n\n`;
+    report += `URL: ${info.url || 'NOT SET'}\n`;
+    report += `Pending Updates: ${info.pending_update_count ?? 0}\n`;
+    report += `Allowed Updates: ${(info.allowed_updates || ['(all default types)']).join(', ')}\n`;
+    const missingUpdates = WEBHOOK_ALLOWED_UPDATES.filter(type => !(info.allowed_updates || []).includes(type));
+    if (info.url && missingUpdates.length > 0) {
+        report += `⚠️ Not receiving: ${missingUpdates.join(', ')}. Set the webhook again to subscribe.\n`;
+    }
+    if (info.last_error_date) {
+        report += `Last Error: ${info.last_error_message} (${new Date(info.last_error_date * 1000).toISOString()})\n`;
+    }
+    return report;
+}
+
+// Calls setWebhook with the configured secret and reports getWebhookInfo.
+// Returns the report text; the caller decides where to send it (admin chat or HTTP response).
+async function setupWebhook(webhookUrl: string, env: Env): Promise<{ ok: boolean; report: string }> {
+    if (!env.WEBHOOK_SECRET) {
+        return { ok: false, report: "❌ WEBHOOK_SECRET is not configured. Add it as a Worker secret first." };
+    }
+    const validation = validateWebhookSecret(env.WEBHOOK_SECRET);
+    if (!validation.valid) {
+        return { ok: false, report: `❌ ${validation.error}` };
+    }
+
+    const success = await setTelegramWebhook(webhookUrl, env);
+    let report = success
+        ? `✅ Webhook set to ${webhookUrl} with secret token verification.\n\n`
+        : `❌ setWebhook failed. Check the worker logs.\n\n`;
+
+    const info = await getTelegramWebhookInfo(env);
+    report += info ? formatWebhookInfo(info) : `⚠️ Could not fetch webhook info.`;
+    return { ok: success, report };
+}
+
 // NEW: Force bot-channel interaction by posting a test message
 async function handleTestPost(chat_id: number, env: Env) {
     const channelId = await getChannelId(env);
@@ -1448,28 +5192,21 @@ async function handleTestPost(chat_id: number, env: Env) {
     await sendTelegramMessage(chat_id, `🔄 Attempting to post a test message to ${channelId}...`, env, undefined, null);
 
     // Try to send a message to the channel
-    const testUrl = `https://api.telegram.org/bot${env.BOT_TOKEN}/sendMessage`;
-    const testResponse = await fetch(testUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            chat_id: channelId,
-            text: "🤖 Bot test message - This confirms the bot can post to this channel."
-        }),
-    });
-
-    const testResult = await testResponse.json();
+    const testResult = await callTelegram<TelegramMessage>('sendMessage', {
+        chat_id: channelId,
+        text: "🤖 Bot test message - This confirms the bot can post to this channel."
+    }, env);
 
     if (testResult.ok) {
         await sendTelegramMessage(chat_id, `✅ Success! Bot posted a test message to the channel.\n\nNow run /test_channel again to verify the connection is established.`, env, undefined, null);
     } else {
         let errorMsg = `❌ Failed to post message\n\n`;
-        errorMsg += `Error: ${testResult.description}\n`;
-        errorMsg += `Code: ${testResult.error_code}\n\n`;
+        errorMsg += `Error: ${testResult.error.description}\n`;
+        errorMsg += `Code: ${testResult.error.code}\n\n`;
 
-        if (testResult.description.includes('not enough rights')) {
+        if (testResult.error.kind === TELEGRAM_ERROR.NOT_ENOUGH_RIGHTS) {
             errorMsg += `Fix: Bot needs 'Post Messages' permission in the channel.`;
-        } else if (testResult.description.includes('chat not found')) {
+        } else if (testResult.error.kind === TELEGRAM_ERROR.CHAT_NOT_FOUND) {
             errorMsg += `Fix: The channel ID is incorrect or bot is not in the channel.\n\n`;
             errorMsg += `Try:\n1. Verify the channel ID\n2. Make sure bot is added as admin\n3. Mention the bot in the channel: @YourBotName`;
         }
@@ -1486,15 +5223,57 @@ export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         return router.handle(request, env, ctx);
     },
+
+    // Cron Trigger entry point (schedules are configured in wrangler.toml)
+    async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+        if (controller.cron === BROADCAST_CRON) {
+            ctx.waitUntil(runBroadcastQueue(env));
+        } else {
+            ctx.waitUntil(handleScheduledExpiryCheck(env));
+        }
+    },
 };
 
 // Health check route
 router.get('/', () => new Response('Bot is running! ✅', { status: 200 }));
 
+// Admin route: registers this worker's /webhook with Telegram. Authenticated with the webhook secret
+// (Authorization: Bearer <WEBHOOK_SECRET>) so it works before any admin can reach the bot.
+router.post('/setup_webhook', async (request: Request, env: Env) => {
+    const authHeader = request.headers.get('Authorization') || '';
+    if (!env.WEBHOOK_SECRET || !timingSafeEqual(authHeader, `Bearer ${env.WEBHOOK_SECRET}`)) {
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    const webhookUrl = `${new URL(request.url).origin}/webhook`;
+    const result = await setupWebhook(webhookUrl, env);
+    return new Response(result.report, { status: result.ok ? 200 : 500 });
+});
+
+// Chapa payment webhook (configure https://<worker-url>/chapa/webhook in the Chapa dashboard)
+router.post('/chapa/webhook', async (request: Request, env: Env) => {
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-chapa-signature') || request.headers.get('chapa-signature');
+    const status = await handleChapaWebhook(rawBody, signature, env);
+    return new Response(status === 200 ? 'OK' : 'Error', { status });
+});
+
 router.post('/webhook', async (request: Request, env: Env) => {
     console.log('[WEBHOOK] Received request');
 
-    let update: any;
+    // --- SECRET TOKEN CHECK: only Telegram knows the secret registered with setWebhook ---
+    // Without a configured secret nothing can be authenticated, so every update is rejected
+    if (!env.WEBHOOK_SECRET) {
+        console.error('[WEBHOOK] WEBHOOK_SECRET is not configured; rejecting the update');
+        return new Response('Unauthorized', { status: 401 });
+    }
+    const receivedSecret = request.headers.get('X-Telegram-Bot-Api-Secret-Token') || '';
+    if (!timingSafeEqual(receivedSecret, env.WEBHOOK_SECRET)) {
+        console.warn('[WEBHOOK] Rejected request with a missing or invalid secret token');
+        return new Response('Unauthorized', { status: 401 });
+    }
+
+    let update: TelegramUpdate;
     try {
         if (request.method !== 'POST' || typeof request.json !== 'function') {
             console.log('[WEBHOOK] Invalid request method or no json function');
@@ -1513,26 +5292,37 @@ router.post('/webhook', async (request: Request, env: Env) => {
         return new Response('OK');
     }
 
-    // Continue with message handling if no callback query
-    if (!update.message) return new Response('OK', { status: 200 });
+    // --- A2. MEMBERS JOINING A MANAGED CHANNEL ---
+    if (update.chat_member) {
+        await handleChatMemberUpdate(update.chat_member, env);
+        return new Response('OK');
+    }
+    if (update.chat_join_request) {
+        await handleChatJoinRequest(update.chat_join_request, env);
+        return new Response('OK');
+    }
 
+    // Continue with message handling if no callback query (channel posts have no sender)
     const message = update.message;
+    if (!message || !message.from) return new Response('OK', { status: 200 });
+
     const chat_id = message.chat.id;
     const text = message.text || '';
     const sender_id = message.from.id;
 
     // --- CRITICAL STEP: REGISTER USER ON ANY COMMAND INTERACTION ---
     if (text.startsWith('/')) {
-        await registerUserId(sender_id, env);
+        await registerUser(message.from, env);
     }
 
-    const senderIsAdmin = await isAdmin(sender_id, env);
+    const senderRole = await getAdminRole(sender_id, env);
+    const senderIsAdmin = senderRole !== null;
 
     // =====================================================================
     // B. HANDLE REGULAR USER FLOW (Phone Number/Confirmation Text)
     // =====================================================================
-    if (!senderIsAdmin && !text.startsWith('/start') && !text.startsWith('/help') && !text.startsWith('/status')) {
-        const flowResponse = await handleRegularUserFlow(chat_id, text, sender_id, env);
+    if (!senderIsAdmin && !text.startsWith('/start') && !text.startsWith('/help') && !text.startsWith('/status') && !text.startsWith('/renew') && !text.startsWith('/language') && !text.startsWith('/claim_admin')) {
+        const flowResponse = await handleRegularUserFlow(chat_id, text, sender_id, env, message);
         if (flowResponse) return flowResponse;
     }
 
@@ -1549,6 +5339,46 @@ router.post('/webhook', async (request: Request, env: Env) => {
 
             await clearAdminPendingCommand(sender_id, env);
 
+            // The role may have changed since the flow was started
+            if (!hasPermission(senderRole, command)) {
+                await sendTelegramMessage(chat_id, `🚫 Your role (*${senderRole}*) can't do that.`, env);
+                return new Response('OK');
+            }
+
+            // Template edits reply with a preview (Save / Edit Again) instead of the admin menu
+            if (command === '/edit_template' || command === '/set_text') {
+                if (command === '/edit_template') {
+                    await handleEditTemplate(chat_id, pendingState.data, argument, env);
+                } else {
+                    await handleSetTextOverride(chat_id, argument, env);
+                }
+                return new Response('OK');
+            }
+
+            // Broadcast composer steps reply with the segment picker / confirmation instead of the admin menu
+            if (command === '/broadcast_message') {
+                await handleBroadcastMessage(chat_id, sender_id, message, env);
+                return new Response('OK');
+            }
+            if (command === '/broadcast_days') {
+                if (!/^\d+$/.test(argument) || parseInt(argument, 10) < 1) {
+                    await sendTelegramMessage(chat_id, "❌ Please send a whole number of days, e.g. `14`.", env);
+                    return new Response('OK');
+                }
+                await handleBroadcastSegment(chat_id, sender_id, 'expiring', parseInt(argument, 10), env);
+                return new Response('OK');
+            }
+
+            // Audit filters reply with the filtered log instead of the admin menu
+            if (command === '/audit_filter_admin' || command === '/audit_filter_user') {
+                if (!/^\d+$/.test(argument)) {
+                    await sendTelegramMessage(chat_id, "❌ Invalid User ID.", env);
+                    return new Response('OK');
+                }
+                await handleAuditLog(chat_id, env, 0, command === '/audit_filter_admin' ? 'a' : 'u', argument);
+                return new Response('OK');
+            }
+
             switch (command) {
                 case '/set_channel_id':
                     await handleSetChannelId(chat_id, argument, env);
@@ -1562,8 +5392,22 @@ router.post('/webhook', async (request: Request, env: Env) => {
                 case '/add_admin':
                     await handleAddAdmin(chat_id, argument, env);
                     break;
+                case '/add_plan':
+                    await handleAddPlan(chat_id, argument, env, pendingState.data);
+                    break;
+                case '/add_channel':
+                    await handleAddChannel(chat_id, argument, env);
+                    break;
+                case '/reject_with_reason':
+                    if (!pendingState.data || !argument) {
+                        await sendTelegramMessage(chat_id, "❌ A rejection reason is required.", env);
+                        break;
+                    }
+                    await handleRejectPayment(chat_id, pendingState.data, env, argument.slice(0, MAX_REJECTION_REASON_LENGTH));
+                    break;
                 case '/invite_user':
-                    const currentChannelId = await getChannelId(env);
+                    // The channel picked in the flow, else the default channel
+                    const currentChannelId = pendingState.data || await getChannelId(env);
                     if (!currentChannelId) {
                         await sendTelegramMessage(chat_id, "❌ Error: Private Channel ID is not set. Use \`/set_channel_id\` first.", env);
                         break;
@@ -1571,14 +5415,21 @@ router.post('/webhook', async (request: Request, env: Env) => {
                     await sendTelegramMessage(chat_id, `✅ Sending invite link to ${argument}.`, env);
 
                     if (argument && /^\d+$/.test(argument)) {
-                        const inviteLinkObject = await generateSingleUseInviteLink(currentChannelId, `Manual Invite for ${argument}`, env);
-                        if (inviteLinkObject) {
-                            const inviteLink = inviteLinkObject.invite_link;
-                            const deliveryMessage = `🎉 Your private channel invitation link is here: [Click to Join](${inviteLink})\n\n*This link is single-use and will expire after you click it.*`;
-                            await sendTelegramMessage(parseInt(argument, 10), deliveryMessage, env);
-                            await sendTelegramMessage(chat_id, `✅ Invitation link generated and sent directly to user ID \`${argument}\`.`, env);
+                        const inviteLinkResult = await generateSingleUseInviteLink(currentChannelId, `Manual Invite for ${argument}`, env);
+                        if (inviteLinkResult.ok) {
+                            const inviteLink = inviteLinkResult.result.invite_link;
+                            await setInviteLinkOwner(inviteLink, parseInt(argument, 10), currentChannelId, env);
+                            const userTexts = await getUserTexts(argument, env);
+                            const delivery = await trySendTelegramMessage(parseInt(argument, 10), userTexts('MANUAL_INVITE', { invite_link: inviteLink }), env);
+                            if (delivery.ok) {
+                                await recordAudit({ actorId: chat_id.toString(), action: AUDIT_ACTION.INVITE_USER, targetId: argument, after: { channelId: currentChannelId } }, env);
+                                await sendTelegramMessage(chat_id, `✅ Invitation link generated and sent directly to user ID \`${argument}\`.`, env);
+                            } else {
+                                await revokeChatInviteLink(currentChannelId, inviteLink, env); // Nobody received it
+                                await sendTelegramMessage(chat_id, `❌ Could not deliver the invite to user ID \`${argument}\`: ${describeTelegramError(delivery.error)}.`, env);
+                            }
                         } else {
-                            await sendTelegramMessage(chat_id, "❌ Error generating link. Check bot admin permissions in the private channel.", env);
+                            await sendTelegramMessage(chat_id, `❌ Error generating link: ${describeTelegramError(inviteLinkResult.error)}.`, env);
                         }
                     } else {
                         await sendTelegramMessage(chat_id, "❌ Invalid Recipient ID.", env);
@@ -1590,7 +5441,7 @@ router.post('/webhook', async (request: Request, env: Env) => {
                     break;
             }
             // After successful conversational input, return to admin menu
-            const menu = await getAdminMenu(env);
+            const menu = await getAdminMenu(env, senderRole);
             await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
             return new Response('OK');
         }
@@ -1613,7 +5464,7 @@ router.post('/webhook', async (request: Request, env: Env) => {
                 const safe_first_name = escapeMarkdown(first_name);
                 let welcomeMessage = `Hello, *${safe_first_name}*! \n\n`;
                 welcomeMessage += "👑 *Bot Admin* access detected. Opening control panel.\n\n";
-                const menu = await getAdminMenu(env);
+                const menu = await getAdminMenu(env, senderRole);
                 await sendTelegramMessage(chat_id, welcomeMessage + menu.text, env, menu.markup);
                 return new Response('OK');
             }
@@ -1621,137 +5472,154 @@ router.post('/webhook', async (request: Request, env: Env) => {
             // 2. Regular User Logic
             const first_name = message.from?.first_name || 'User';
             const safe_first_name = escapeMarkdown(first_name);
+            const t = await getUserTexts(sender_id, env);
 
             // Get current state and config
             const currentState = await getUserState(sender_id, env);
+            const subscriptions = await getUserSubscriptions(sender_id, env);
+            const activeChannelIds = subscriptions
+                .filter(subscription => subscription.status === SUBSCRIPTION_STATUS.ACTIVE)
+                .map(subscription => subscription.channelId);
+            const hasActiveSubscription = activeChannelIds.length > 0;
             const channelId = await getChannelId(env);
 
-            console.log(`[/start] User: ${sender_id} (${safe_first_name}), State: ${currentState?.status}`);
+            console.log(`[/start] User: ${sender_id} (${safe_first_name}), State: ${currentState?.status}, Active channels: ${activeChannelIds.length}`);
 
-            // 3. Check if ALREADY APPROVED and STILL A MEMBER
+            // 3. Check if ALREADY APPROVED and STILL A MEMBER (of any channel they are subscribed to)
             let isActiveMember = false;
-            if (currentState && currentState.status === STATE.APPROVED && channelId) {
-                const memberInfo = await getChatMember(channelId, sender_id, env);
+            for (const activeChannelId of activeChannelIds) {
+                const memberInfo = await getChatMember(activeChannelId, sender_id, env);
                 // Check if user is a member, admin, or creator
                 if (memberInfo && ['creator', 'administrator', 'member'].includes(memberInfo.status)) {
                     isActiveMember = true;
+                    break;
                 }
             }
 
             if (isActiveMember) {
                 console.log('[/start] User is already an active member.');
-                await sendTelegramMessage(chat_id, `Hello, *${safe_first_name}*! \n\n` + ALREADY_APPROVED, env);
+                let memberMessage = t('WELCOME_HELLO', { name: safe_first_name }) + t('ALREADY_APPROVED') + `\n\n` + t('RENEW_HINT');
+                let memberMarkup: any = undefined;
+
+                // Offer plans for the other channels / tiers the user is not subscribed to
+                const isMidPayment = currentState && (currentState.status === STATE.PENDING_CONFIRMATION || currentState.status === STATE.PENDING_ADMIN_REVIEW);
+                const otherPlans = (await getPlans(env)).filter(plan => !activeChannelIds.includes(plan.channelId || channelId || ''));
+                if (otherPlans.length > 0 && !isMidPayment) {
+                    await setUserState(sender_id, { status: STATE.WAITING_FOR_PLAN, timestamp: Date.now() }, env);
+                    const planChoice = getPlanChoiceMessage(t, otherPlans, await getChannels(env));
+                    memberMessage += t('OTHER_CHANNELS_AVAILABLE') + planChoice.text;
+                    memberMarkup = planChoice.markup;
+                }
+
+                await sendTelegramMessage(chat_id, memberMessage, env, memberMarkup);
                 return new Response('OK');
             }
 
             // 4. Handle other states (New, Rejected, Pending, or Approved-but-left)
-            let messageText = `Hello, *${safe_first_name}*! \n\n`;
+            let messageText = t('WELCOME_HELLO', { name: safe_first_name });
             let showInstructions = false;
             let showConfirmButton = false;
+            let showCheckoutButton = false; // Offer "Pay online" next to the manual steps
 
-            if (!currentState) {
+            if (!currentState && subscriptions.length === 0) {
                 // Case: New User
                 console.log('[/start] Case: New User');
-                messageText += "Welcome to GoldBot! 🎉\n\n";
+                messageText += t('WELCOME_NEW_USER');
                 showInstructions = true;
             }
-            else if (currentState.status === STATE.APPROVED) {
-                // Case: Approved but not in channel
-                console.log('[/start] Case: Approved but not in channel');
-                messageText += "It looks like you're no longer in the private channel. Let's get you registered again.\n\n";
+            else if (!currentState || currentState.status === STATE.APPROVED) {
+                // Conversational state expired or approved: the subscriber record decides
+                if (hasActiveSubscription) {
+                    // Case: Approved but not in channel
+                    console.log('[/start] Case: Approved but not in channel');
+                    messageText += t('WELCOME_LEFT_CHANNEL');
+                } else {
+                    // Case: Subscription ended, allow retry
+                    console.log('[/start] Case: Subscription ended');
+                    messageText += t('WELCOME_RESTART');
+                }
                 showInstructions = true;
             }
             else if (currentState.status === STATE.REJECTED) {
                 // Case: Rejected, allow retry
                 console.log('[/start] Case: Rejected');
-                messageText += "Starting a new registration. Please follow the steps below.\n\n";
+                messageText += t('WELCOME_RESTART');
                 showInstructions = true;
             }
             else if (currentState.status === STATE.WAITING_FOR_PHONE) {
                 // Case: Already started, hasn't sent phone
                 console.log('[/start] Case: Waiting for phone');
 
-                // Fetch payment details
-                let paymentAmount = 'UNKNOWN';
-                let paymentPhone = 'UNKNOWN';
-                try { paymentAmount = await getPaymentAmount(env) || 'UNKNOWN'; } catch (e) { }
-                try { paymentPhone = await getPaymentPhone(env) || 'UNKNOWN'; } catch (e) { }
-
-                messageText += `ℹ️ *Payment Reminder*\n\n`;
-                messageText += `Please pay *${paymentAmount} ETB* to \`${paymentPhone}\` via Telebirr.\n\n`;
-                messageText += `Then, send the *phone number* you used for payment here.`;
+                messageText += await getPaymentReminderText(env, t, currentState.plan);
+                showCheckoutButton = true;
                 // Do NOT set showInstructions = true
             }
+            else if (currentState.status === STATE.WAITING_FOR_PLAN) {
+                // Case: Already started, hasn't picked a plan
+                console.log('[/start] Case: Waiting for plan');
+                showInstructions = true;
+            }
+            else if (currentState.status === STATE.WAITING_FOR_PROOF) {
+                // Case: Sent phone, hasn't sent proof of payment
+                console.log('[/start] Case: Waiting for proof');
+                messageText += t('START_WAITING_FOR_PROOF');
+            }
             else if (currentState.status === STATE.PENDING_CONFIRMATION) {
-                // Case: Sent phone, needs to click confirm
+                // Case: Sent phone and proof, needs to click confirm
                 console.log('[/start] Case: Pending Confirmation');
-                messageText += "You have already provided your phone number. Please confirm your payment using the button below.\n\n";
+                messageText += t('START_PENDING_CONFIRMATION');
                 showConfirmButton = true;
             }
             else if (currentState.status === STATE.PENDING_ADMIN_REVIEW) {
                 // Case: Waiting for admin
                 console.log('[/start] Case: Pending Admin Review');
-                messageText += "Your payment is currently pending admin review. Please wait for approval.\n\n";
+                messageText += t('START_PENDING_REVIEW');
             }
 
             // 5. Execute Actions based on flags
-            if (showInstructions) {
-                // Reset/Set state to WAITING_FOR_PHONE
-                console.log('[/start] Action: Sending Instructions');
-                await setUserState(sender_id, { status: STATE.WAITING_FOR_PHONE, timestamp: Date.now() }, env);
-
-                let paymentAmount = 'UNKNOWN';
-                let paymentPhone = 'UNKNOWN';
-                try { paymentAmount = await getPaymentAmount(env) || 'UNKNOWN'; } catch (e) { }
-                try { paymentPhone = await getPaymentPhone(env) || 'UNKNOWN'; } catch (e) { }
-
-                const instructions = `
-🎉 *Welcome to the Premium Channel!*
-
-To get access, please follow these steps:
-
-1️⃣ Make a payment of *${paymentAmount} ETB* via Telebirr to:
-\`${paymentPhone}\` (Tap to copy)
-
-2️⃣ After payment, simply *send the phone number* you used to pay right here in this chat.
-
-_Example:_ \`0911223344\` or \`+251911223344\`
+            let markup: any = undefined;
+            if (showConfirmButton) {
+                markup = {
+                    inline_keyboard: [[{ text: t('BUTTON_CONFIRM_PAYMENT'), callback_data: "/confirm_payment" }]]
+                };
+            } else if (showCheckoutButton) {
+                markup = getCheckoutMarkup(env, t);
+            }
 
-We will verify your payment and send you the invite link instantly! 🚀
-`;
-                messageText += instructions;
+            if (showInstructions) {
+                const plans = await getPlans(env);
+                if (plans.length > 0) {
+                    // Plans configured: the user picks one before getting the payment steps
+                    console.log('[/start] Action: Sending Plan Choice');
+                    await setUserState(sender_id, { status: STATE.WAITING_FOR_PLAN, timestamp: Date.now() }, env);
+                    const planChoice = getPlanChoiceMessage(t, plans, await getChannels(env));
+                    messageText += planChoice.text;
+                    markup = planChoice.markup;
+                } else {
+                    // Reset/Set state to WAITING_FOR_PHONE
+                    console.log('[/start] Action: Sending Instructions');
+                    await setUserState(sender_id, { status: STATE.WAITING_FOR_PHONE, timestamp: Date.now() }, env);
+                    messageText += await getPaymentStepsText(env, t);
+                    markup = getCheckoutMarkup(env, t);
+                }
             }
 
             // 6. Send Message with Fallback Logic
-            let success = false;
-            if (showConfirmButton) {
-                const markup = {
-                    inline_keyboard: [[{ text: "✅ Confirm Payment", callback_data: "/confirm_payment" }]]
-                };
-                success = await sendTelegramMessage(chat_id, messageText, env, markup);
-            } else {
-                success = await sendTelegramMessage(chat_id, messageText, env);
-            }
+            const success = await sendTelegramMessage(chat_id, messageText, env, markup);
 
             // 7. Fallback if Markdown failed
             if (!success) {
                 console.log('[/start] Markdown message failed, trying plain text fallback');
                 const plainText = messageText.replace(/[*_`]/g, ''); // Strip markdown chars
-                if (showConfirmButton) {
-                    const markup = {
-                        inline_keyboard: [[{ text: "✅ Confirm Payment", callback_data: "/confirm_payment" }]]
-                    };
-                    await sendTelegramMessage(chat_id, plainText, env, markup, undefined);
-                } else {
-                    await sendTelegramMessage(chat_id, plainText, env, undefined, undefined);
-                }
+                await sendTelegramMessage(chat_id, plainText, env, markup, undefined);
             }
 
             return new Response('OK');
 
         } catch (e) {
             console.error("Critical error in /start handler:", e);
-            await sendTelegramMessage(chat_id, "🆘 A critical error occurred. Please try again later.", env);
+            const t = await getUserTexts(sender_id, env);
+            await sendTelegramMessage(chat_id, t('CRITICAL_ERROR'), env);
             return new Response('OK');
         }
     }
@@ -1760,23 +5628,47 @@ We will verify your payment and send you the invite link instantly! 🚀
     // --- COMMAND: /help (Context-Aware) ---
     else if (text === '/help') {
         if (senderIsAdmin) {
-            const menu = await getAdminMenu(env);
+            const menu = await getAdminMenu(env, senderRole);
             await sendTelegramMessage(chat_id, menu.text, env, menu.markup);
         } else {
-            await sendTelegramMessage(chat_id, REGULAR_HELP, env);
+            const t = await getUserTexts(sender_id, env);
+            await sendTelegramMessage(chat_id, t('REGULAR_HELP'), env);
         }
         return new Response('OK');
     }
 
+    // --- COMMAND: /language (for regular users) ---
+    else if (text === '/language' && !senderIsAdmin) {
+        await handleLanguageCommand(chat_id, sender_id, env);
+        return new Response('OK');
+    }
+
     // --- COMMAND: /status (for regular users) ---
     else if (text === '/status' && !senderIsAdmin) {
         await handleUserStatusCommand(chat_id, sender_id, env);
         return new Response('OK');
     }
 
+    // --- COMMAND: /renew (for regular users) ---
+    else if (text === '/renew' && !senderIsAdmin) {
+        await handleRenewRequest(chat_id, sender_id, env);
+        return new Response('OK');
+    }
+
+    // --- COMMAND: /claim_admin <code> (first admin of a fresh deployment) ---
+    else if (text.startsWith('/claim_admin') && !senderIsAdmin) {
+        await handleClaimAdmin(chat_id, sender_id, text.split(/\s+/)[1] || '', message.message_id, env);
+        return new Response('OK');
+    }
+
 
     // --- ADMIN COMMANDS (Gated by senderIsAdmin) ---
     else if (senderIsAdmin) {
+        // Diagnostics and webhook commands are for owners only
+        if (senderRole !== ADMIN_ROLE.OWNER && text.startsWith('/')) {
+            await sendTelegramMessage(chat_id, `🚫 Your role (*${senderRole}*) can only use the menu buttons. Type /start to open it.`, env);
+            return new Response('OK');
+        }
         if (text === '/test_channel') {
             await handleTestChannel(chat_id, env);
             return new Response('OK');
@@ -1785,6 +5677,17 @@ We will verify your payment and send you the invite link instantly! 🚀
             await handleTestPost(chat_id, env);
             return new Response('OK');
         }
+        if (text === '/set_webhook') {
+            const webhookUrl = `${new URL(request.url).origin}/webhook`;
+            const result = await setupWebhook(webhookUrl, env);
+            await sendTelegramMessage(chat_id, result.report, env, undefined, null);
+            return new Response('OK');
+        }
+        if (text === '/webhook_info') {
+            const info = await getTelegramWebhookInfo(env);
+            await sendTelegramMessage(chat_id, info ? formatWebhookInfo(info) : "⚠️ Could not fetch webhook info.", env, undefined, null);
+            return new Response('OK');
+        }
 
         // Fallback for unrecognized command by an admin
         if (text.startsWith('/')) {
@@ -1795,7 +5698,8 @@ We will verify your payment and send you the invite link instantly! 🚀
 
     // --- FALLBACK (Non-admin or unrecognized command) ---
     else if (text.startsWith('/')) {
-        await sendTelegramMessage(chat_id, "Command not recognized. Type \`/help\` for a list of available commands.", env);
+        const t = await getUserTexts(sender_id, env);
+        await sendTelegramMessage(chat_id, t('UNKNOWN_COMMAND'), env);
         return new Response('OK');
     }
 
@@ -0,0 +1,100 @@
+// Broadcast composer: message → segment → confirm, with the queue finished by the Cron Trigger
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHarness, ADMIN_SETUP_CODE, type Harness } from './support/harness';
+import { callbackQuery, textMessage, type TestUser } from './support/updates';
+
+const admin: TestUser = { id: 7000001, first_name: 'Abebe' };
+const users: TestUser[] = [
+    { id: 8000001, first_name: 'Sara' },
+    { id: 8000002, first_name: 'Dawit' },
+    { id: 8000003, first_name: 'Hana' },
+];
+
+let harness: Harness;
+
+beforeEach(async () => {
+    harness = createHarness();
+    await harness.sendUpdate(textMessage(admin, `/claim_admin ${ADMIN_SETUP_CODE}`));
+    for (const user of users) {
+        await harness.sendUpdate(textMessage(user, '/help')); // Registers the user
+    }
+    harness.bot.reset();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('broadcast', () => {
+    it('copies the message to every registered user and reports blocked users', async () => {
+        harness.bot.on('copyMessage', params => params.chat_id === users[1].id
+            ? { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' }
+            : { ok: true, result: { message_id: 1 } });
+
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_flow', 1));
+        const announcement = textMessage(admin, '📢 New signals are out!');
+        await harness.sendUpdate(announcement);
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_segment all', 2));
+        expect(harness.bot.lastMessageTo(admin.id).text).toContain('*Recipients:* 4'); // The admin registered with /claim_admin
+
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_send', 2));
+        expect(harness.bot.callsTo('copyMessage')).toHaveLength(0); // Nothing is sent inside the admin's webhook request
+
+        await harness.runScheduled('* * * * *');
+        const copies = harness.bot.callsTo('copyMessage');
+        expect(copies.map(call => call.params.chat_id).sort()).toEqual([admin, ...users].map(user => user.id));
+        expect(copies.every(call => call.params.from_chat_id === admin.id && call.params.message_id === announcement.message.message_id)).toBe(true);
+
+        const report = harness.bot.lastMessageTo(admin.id).text;
+        expect(report).toContain('Broadcast finished');
+        expect(report).toContain('Delivered: *3*');
+        expect(report).toContain('Blocked: *1*');
+        expect(harness.kv.keys('broadcast_queue:')).toHaveLength(0);
+    });
+
+    it('leaves the rest of a rate-limited broadcast to the next cron run', async () => {
+        let throttled = true;
+        harness.bot.on('copyMessage', () => throttled
+            ? { ok: false, error_code: 429, description: 'Too Many Requests: retry after 60', parameters: { retry_after: 60 } }
+            : { ok: true, result: { message_id: 1 } });
+
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_flow', 1));
+        await harness.sendUpdate(textMessage(admin, 'Maintenance tonight'));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_segment all', 2));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_send', 2));
+        await harness.runScheduled('* * * * *');
+        expect(harness.kv.keys('broadcast_queue:')).toHaveLength(1);
+
+        throttled = false;
+        await harness.runScheduled('* * * * *');
+
+        expect(harness.bot.lastMessageTo(admin.id).text).toContain('Delivered: *4*');
+        expect(harness.kv.keys('broadcast_queue:')).toHaveLength(0);
+    });
+
+    it('does not wait out even a short 429 while holding the queue lock', async () => {
+        harness.bot.on('copyMessage', () => ({ ok: false, error_code: 429, description: 'Too Many Requests: retry after 1', parameters: { retry_after: 1 } }));
+
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_flow', 1));
+        await harness.sendUpdate(textMessage(admin, 'Maintenance tonight'));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_segment all', 2));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_send', 2));
+        await harness.runScheduled('* * * * *');
+
+        expect(harness.bot.callsTo('copyMessage')).toHaveLength(1);
+        expect(harness.kv.keys('broadcast_queue:')).toHaveLength(1);
+    });
+
+    it('makes one request per recipient, without retrying server errors', async () => {
+        harness.bot.on('copyMessage', () => ({ ok: false, error_code: 502, description: 'Bad Gateway' }));
+
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_flow', 1));
+        await harness.sendUpdate(textMessage(admin, 'Maintenance tonight'));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_segment all', 2));
+        await harness.sendUpdate(callbackQuery(admin, '/broadcast_send', 2));
+        await harness.runScheduled('* * * * *');
+
+        expect(harness.bot.callsTo('copyMessage')).toHaveLength(4);
+        expect(harness.bot.lastMessageTo(admin.id).text).toContain('Failed: *4*');
+    });
+});
@@ -0,0 +1,116 @@
+// Chapa hosted checkout: signed webhooks are verified against the (fake) Chapa API before access is
+// granted, and payments that don't cover the price are held for admin review
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHarness, ADMIN_SETUP_CODE, CHAPA_SECRET_KEY, CHAPA_WEBHOOK_SECRET, type Harness } from './support/harness';
+import { callbackQuery, photoMessage, textMessage, type TestUser } from './support/updates';
+
+const CHANNEL_ID = "-1001234567890";
+const admin: TestUser = { id: 7000001, first_name: 'Abebe' };
+const user: TestUser = { id: 8000001, first_name: 'Sara' };
+
+let harness: Harness;
+
+async function getState(userId: number) {
+    return await harness.kv.getJSON<any>(`user_payment_state:${userId}`);
+}
+
+async function getSubscriptionRecord(userId: number) {
+    return await harness.kv.getJSON<any>(`subscription:${userId}:${CHANNEL_ID}`);
+}
+
+// Starts a checkout through the "Pay online" button and returns its tx_ref
+async function startCheckout(): Promise<string> {
+    await harness.sendUpdate(textMessage(user, '/start'));
+    await harness.sendUpdate(callbackQuery(user, '/checkout'));
+    const [session] = harness.kv.keys('checkout:');
+    return session.slice('checkout:'.length);
+}
+
+function paidEvent(txRef: string) {
+    return { event: 'charge.success', tx_ref: txRef, status: 'success' };
+}
+
+beforeEach(async () => {
+    harness = createHarness({ CHAPA_SECRET_KEY, CHAPA_WEBHOOK_SECRET });
+    await harness.sendUpdate(textMessage(admin, `/claim_admin ${ADMIN_SETUP_CODE}`));
+    await harness.sendUpdate(callbackQuery(admin, '/set_channel_id_flow', 1));
+    await harness.sendUpdate(textMessage(admin, CHANNEL_ID));
+    await harness.sendUpdate(callbackQuery(admin, '/set_payment_amount_flow', 2));
+    await harness.sendUpdate(textMessage(admin, '500'));
+    harness.bot.reset();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('Chapa webhook', () => {
+    it('rejects webhooks without a valid signature', async () => {
+        const txRef = await startCheckout();
+        harness.chapa.setTransaction(txRef, { status: 'success', amount: '500', currency: 'ETB' });
+
+        const response = await harness.sendChapaWebhook(paidEvent(txRef), 'not-the-signature');
+
+        expect(response.status).toBe(401);
+        expect((await getState(user.id)).status).toBe('WAITING_FOR_PHONE');
+        expect(await getSubscriptionRecord(user.id)).toBeNull();
+    });
+
+    it('grants access for a verified payment once, however often the webhook is delivered', async () => {
+        const txRef = await startCheckout();
+        expect(harness.chapa.initialized[0]).toMatchObject({ amount: '500', currency: 'ETB', tx_ref: txRef });
+        harness.chapa.setTransaction(txRef, { status: 'success', amount: '500', currency: 'ETB' });
+
+        expect((await harness.sendChapaWebhook(paidEvent(txRef))).status).toBe(200);
+        expect((await harness.sendChapaWebhook(paidEvent(txRef))).status).toBe(200);
+
+        expect((await getState(user.id)).status).toBe('APPROVED');
+        expect((await getSubscriptionRecord(user.id)).status).toBe('ACTIVE');
+        expect(harness.bot.callsTo('createChatInviteLink')).toHaveLength(1);
+        expect((await harness.kv.getJSON<any>(`checkout:${txRef}`)).status).toBe('PAID');
+    });
+
+    it('holds an underpaid or wrong-currency payment for admin review', async () => {
+        const txRef = await startCheckout();
+        harness.chapa.setTransaction(txRef, { status: 'success', amount: '50', currency: 'USD' });
+
+        expect((await harness.sendChapaWebhook(paidEvent(txRef))).status).toBe(200);
+
+        const state = await getState(user.id);
+        expect(state.status).toBe('PENDING_ADMIN_REVIEW');
+        expect(state.proof.warnings).toContain(`Chapa payment ${txRef} paid 50 USD, expected 500 ETB`);
+        expect(await getSubscriptionRecord(user.id)).toBeNull();
+        const notice = harness.bot.lastMessageTo(admin.id).text;
+        expect(notice).toContain('needs review');
+        expect(notice).toContain(txRef);
+        const audit = await harness.kv.list({ prefix: 'audit_log:' });
+        expect(audit.keys.map((key: any) => key.metadata.action)).toContain('CHECKOUT_MISMATCH');
+    });
+
+    it('asks Chapa to retry while the user is locked by another action', async () => {
+        const txRef = await startCheckout();
+        harness.chapa.setTransaction(txRef, { status: 'success', amount: '500', currency: 'ETB' });
+        await harness.holdLock(user.id.toString());
+
+        expect((await harness.sendChapaWebhook(paidEvent(txRef))).status).toBe(503);
+        expect((await harness.kv.getJSON<any>(`checkout:${txRef}`)).status).toBe('PENDING');
+        expect(await getSubscriptionRecord(user.id)).toBeNull();
+    });
+
+    it('extends the subscription of a user approved while the checkout was open', async () => {
+        const txRef = await startCheckout();
+        await harness.sendUpdate(textMessage(user, '0912345678'));
+        await harness.sendUpdate(photoMessage(user));
+        await harness.sendUpdate(callbackQuery(user, '/confirm_payment'));
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+        const approved = await getSubscriptionRecord(user.id);
+
+        harness.chapa.setTransaction(txRef, { status: 'success', amount: '500', currency: 'ETB' });
+        expect((await harness.sendChapaWebhook(paidEvent(txRef))).status).toBe(200);
+
+        const renewed = await getSubscriptionRecord(user.id);
+        expect(renewed.startsAt).toBe(approved.startsAt);
+        expect(renewed.expiresAt).toBeGreaterThan(approved.expiresAt);
+        expect(harness.bot.callsTo('createChatInviteLink')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,333 @@
+// Replays a user's payment from /start to approval and revocation, plus the admin rejection path,
+// through the webhook. Runs offline against the in-memory KV and the fake Bot API.
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker, { type Env } from '../src/index';
+import { createHarness, WEBHOOK_SECRET, ADMIN_SETUP_CODE, type Harness } from './support/harness';
+import { callbackQuery, photoMessage, textMessage, type TestUser } from './support/updates';
+
+const CHANNEL_ID = "-1001234567890";
+const admin: TestUser = { id: 7000001, first_name: 'Abebe', username: 'abebe_admin' };
+const user: TestUser = { id: 8000001, first_name: 'Sara' };
+const friend: TestUser = { id: 8000002, first_name: 'Dawit' };
+const RECEIPT_SMS = "Dear Sara, You have transferred ETB 500.00 to Selam (2519****1234) on 12/05/2024 14:23:11. Your transaction number is BE12XYZ345. telebirr";
+
+let harness: Harness;
+
+async function getState(userId: number) {
+    return await harness.kv.getJSON<any>(`user_payment_state:${userId}`);
+}
+
+async function getSubscriptionRecord(userId: number) {
+    return await harness.kv.getJSON<any>(`subscription:${userId}:${CHANNEL_ID}`);
+}
+
+async function getAuditActions(): Promise<string[]> {
+    const result = await harness.kv.list({ prefix: 'audit_log:' });
+    return result.keys.map((key: any) => key.metadata.action);
+}
+
+// The first admin claims the bot and configures it, all through updates
+async function setUpBot() {
+    await harness.sendUpdate(textMessage(admin, `/claim_admin ${ADMIN_SETUP_CODE}`));
+    await harness.sendUpdate(callbackQuery(admin, '/set_channel_id_flow', 1));
+    await harness.sendUpdate(textMessage(admin, CHANNEL_ID));
+    await harness.sendUpdate(callbackQuery(admin, '/set_payment_amount_flow', 2));
+    await harness.sendUpdate(textMessage(admin, '500'));
+    await harness.sendUpdate(callbackQuery(admin, '/set_payment_phone_flow', 3));
+    await harness.sendUpdate(textMessage(admin, '0911000000'));
+    harness.bot.reset();
+}
+
+// Drives a user to PENDING_ADMIN_REVIEW: /start, phone number, receipt (a screenshot unless an SMS is given), confirm
+async function submitPayment(payer: TestUser = user, sms?: string) {
+    await harness.sendUpdate(textMessage(payer, '/start'));
+    await harness.sendUpdate(textMessage(payer, '0912345678'));
+    await harness.sendUpdate(sms ? textMessage(payer, sms) : photoMessage(payer));
+    await harness.sendUpdate(callbackQuery(payer, '/confirm_payment'));
+}
+
+beforeEach(async () => {
+    harness = createHarness();
+    await setUpBot();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('webhook', () => {
+    it('rejects updates without the secret token', async () => {
+        const response = await worker.fetch(new Request('https://worker.test/webhook', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': `${WEBHOOK_SECRET}-wrong` },
+            body: JSON.stringify(textMessage(user, '/start')),
+        }), harness.env, {} as ExecutionContext);
+
+        expect(response.status).toBe(401);
+        expect(harness.bot.calls).toHaveLength(0);
+        expect(await getState(user.id)).toBeNull();
+    });
+
+    it('rejects every update while WEBHOOK_SECRET is not configured', async () => {
+        const response = await worker.fetch(new Request('https://worker.test/webhook', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(callbackQuery(admin, `/approve ${user.id}`)),
+        }), { ...harness.env, WEBHOOK_SECRET: undefined } as unknown as Env, {} as ExecutionContext);
+
+        expect(response.status).toBe(401);
+        expect(harness.bot.calls).toHaveLength(0);
+    });
+});
+
+describe('admin setup', () => {
+    it('lets only one of two simultaneous /claim_admin calls become the owner', async () => {
+        harness = createHarness();
+
+        await Promise.all([
+            harness.sendUpdate(textMessage(admin, `/claim_admin ${ADMIN_SETUP_CODE}`)),
+            harness.sendUpdate(textMessage(user, `/claim_admin ${ADMIN_SETUP_CODE}`)),
+        ]);
+
+        const admins = await harness.kv.getJSON<any[]>('telegram_admin_ids');
+        expect(admins).toHaveLength(1);
+        const loser = admins![0].id === admin.id.toString() ? user : admin;
+        expect(harness.bot.messagesTo(loser.id).some(message => message.text.includes('You are now the first admin'))).toBe(false);
+    });
+});
+
+describe('payment lifecycle', () => {
+    it('moves a new user through every state up to APPROVED, then REJECTED on revocation', async () => {
+        // WAITING_FOR_PHONE: /start sends the payment steps
+        await harness.sendUpdate(textMessage(user, '/start'));
+        expect((await getState(user.id)).status).toBe('WAITING_FOR_PHONE');
+        expect(harness.bot.lastMessageTo(user.id).text).toContain('+251911000000');
+
+        // WAITING_FOR_PROOF: the phone number is normalized
+        await harness.sendUpdate(textMessage(user, '0912345678'));
+        const afterPhone = await getState(user.id);
+        expect(afterPhone.status).toBe('WAITING_FOR_PROOF');
+        expect(afterPhone.phone).toBe('+251912345678');
+
+        // PENDING_CONFIRMATION: the largest photo size is kept as proof, and a confirm button is shown
+        await harness.sendUpdate(photoMessage(user));
+        const afterProof = await getState(user.id);
+        expect(afterProof.status).toBe('PENDING_CONFIRMATION');
+        expect(afterProof.proof.fileId).toMatch(/-x$/);
+        expect(harness.bot.lastMessageTo(user.id).reply_markup.inline_keyboard[0][0].callback_data).toBe('/confirm_payment');
+
+        // PENDING_ADMIN_REVIEW: the admin gets the receipt with Approve / Reject buttons
+        await harness.sendUpdate(callbackQuery(user, '/confirm_payment'));
+        expect((await getState(user.id)).status).toBe('PENDING_ADMIN_REVIEW');
+        const review = harness.bot.callsTo('sendPhoto').find(call => call.params.chat_id === admin.id);
+        expect(review?.params.photo).toBe(afterProof.proof.fileId);
+        expect(review?.params.reply_markup.inline_keyboard[0].map((button: any) => button.callback_data))
+            .toEqual([`/approve ${user.id}`, `/reject ${user.id}`]);
+
+        // APPROVED: a single-use invite link is created, sent to the user and stored on the subscription
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+        expect((await getState(user.id)).status).toBe('APPROVED');
+        const [inviteCall] = harness.bot.callsTo('createChatInviteLink');
+        expect(inviteCall.params).toMatchObject({ chat_id: CHANNEL_ID, member_limit: 1 });
+        const subscription = await getSubscriptionRecord(user.id);
+        expect(subscription.status).toBe('ACTIVE');
+        expect(subscription.inviteLink).toMatch(/^https:\/\/t\.me\/\+fakeInvite/);
+        expect(harness.bot.messagesTo(user.id).some(message => message.text.includes(subscription.inviteLink))).toBe(true);
+
+        // REJECTED: revoking access invalidates the link, kicks the user and closes the subscription
+        await harness.sendUpdate(callbackQuery(admin, `/revoke_access ${user.id}`));
+        expect((await getState(user.id)).status).toBe('REJECTED');
+        expect((await getSubscriptionRecord(user.id)).status).toBe('REVOKED');
+        expect(harness.bot.callsTo('revokeChatInviteLink')[0].params).toMatchObject({ chat_id: CHANNEL_ID, invite_link: subscription.inviteLink });
+        expect(harness.bot.callsTo('banChatMember')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: user.id });
+        expect(harness.bot.callsTo('unbanChatMember')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: user.id, only_if_banned: true });
+
+        expect(await getAuditActions()).toEqual(expect.arrayContaining(['CLAIM_ADMIN', 'SET_CHANNEL_ID', 'APPROVE', 'REVOKE']));
+    });
+
+    it('rejects a payment with a preset reason and lets the user resubmit', async () => {
+        await submitPayment();
+
+        await harness.sendUpdate(callbackQuery(admin, `/reject ${user.id}`));
+        await harness.sendUpdate(callbackQuery(admin, `/reject_reason ${user.id} amount`));
+
+        const rejected = await getState(user.id);
+        expect(rejected.status).toBe('REJECTED');
+        expect(rejected.rejectionReason).toBeTruthy();
+        const notice = harness.bot.messagesTo(user.id).find(message => message.text.includes(rejected.rejectionReason));
+        expect(notice?.reply_markup.inline_keyboard[0][0].callback_data).toBe('/resubmit');
+
+        await harness.sendUpdate(callbackQuery(user, '/resubmit'));
+        expect((await getState(user.id)).status).toBe('WAITING_FOR_PHONE');
+    });
+
+    it('does not approve twice when the button is pressed again', async () => {
+        await submitPayment();
+
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        expect(harness.bot.callsTo('createChatInviteLink')).toHaveLength(1);
+        expect(harness.bot.messagesTo(admin.id).some(message => message.text.includes('already *approved*'))).toBe(true);
+    });
+
+    it('bans a revoked user permanently and lifts the ban when they are approved again', async () => {
+        await submitPayment();
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        await harness.sendUpdate(callbackQuery(admin, `/ban_access ${user.id} 0 ${CHANNEL_ID}`));
+
+        expect((await getSubscriptionRecord(user.id))).toMatchObject({ status: 'REVOKED', bannedUntil: 0 });
+        expect(harness.bot.callsTo('banChatMember')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: user.id });
+        expect(harness.bot.callsTo('unbanChatMember')).toHaveLength(0);
+        const report = harness.bot.messagesTo(admin.id).find(message => message.text.includes('*REVOKED*'));
+        expect(report?.text).toContain('Banned *permanently*');
+
+        await harness.sendUpdate(callbackQuery(user, '/resubmit'));
+        await submitPayment();
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        expect(harness.bot.callsTo('unbanChatMember')).toHaveLength(1);
+        expect((await getSubscriptionRecord(user.id)).status).toBe('ACTIVE');
+    });
+
+    it('flags a user who blocked the bot and tells the admin the invite was not delivered', async () => {
+        await submitPayment();
+        harness.bot.on('sendMessage', params => params.chat_id === user.id
+            ? { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' }
+            : { ok: true, result: { message_id: 1, chat: { id: params.chat_id, type: 'private' }, date: 0 } });
+
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        expect((await getState(user.id)).status).toBe('APPROVED');
+        expect(harness.bot.messagesTo(admin.id).some(message => message.text.includes('the user has blocked the bot'))).toBe(true);
+        expect((await harness.kv.getJSON<any>(`user_profile:${user.id}`)).blockedAt).toBeGreaterThan(0);
+    });
+
+    it('only locks a pasted SMS transaction to the user whose payment was approved', async () => {
+        // Someone else pasting the receipt first is only a warning for the reviewer
+        await submitPayment(friend, RECEIPT_SMS);
+        await submitPayment(user, RECEIPT_SMS);
+        expect((await getState(user.id)).proof.warnings).toContain(`Transaction was also submitted by User ID ${friend.id} (not approved)`);
+
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+        expect((await getState(user.id)).status).toBe('APPROVED');
+        expect(await harness.kv.getJSON<any>('payment_txn:BE12XYZ345')).toMatchObject({ userId: user.id, approvedAt: expect.any(Number) });
+
+        // The approved transaction can't pay for anyone else
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${friend.id}`));
+        expect((await getState(friend.id)).status).toBe('PENDING_ADMIN_REVIEW');
+        expect(harness.bot.messagesTo(admin.id).some(message => message.text.includes(`was already approved for User ID \`${user.id}\``))).toBe(true);
+
+        await harness.sendUpdate(callbackQuery(admin, `/reject_reason ${friend.id} amount`));
+        await harness.sendUpdate(callbackQuery(friend, '/resubmit'));
+        await harness.sendUpdate(textMessage(friend, '0912345678'));
+        await harness.sendUpdate(textMessage(friend, RECEIPT_SMS));
+        expect((await getState(friend.id)).status).toBe('WAITING_FOR_PROOF');
+        expect(harness.bot.lastMessageTo(friend.id).text).toContain('has already paid for an approved subscription');
+    });
+
+    it('does not let a user renew with the receipt of a payment already approved for them', async () => {
+        await submitPayment(user, RECEIPT_SMS);
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        await harness.sendUpdate(callbackQuery(user, '/renew'));
+        await harness.sendUpdate(textMessage(user, '0912345678'));
+        await harness.sendUpdate(textMessage(user, RECEIPT_SMS));
+
+        expect((await getState(user.id)).status).toBe('WAITING_FOR_PROOF');
+        expect(harness.bot.lastMessageTo(user.id).text).toContain('has already paid for an approved subscription');
+    });
+});
+
+describe('multiple channels', () => {
+    const VIP_CHANNEL_ID = "-1009876543210";
+
+    it('only creates a subscription for the channel of the approved plan', async () => {
+        await harness.kv.put('channel_registry', JSON.stringify([{ id: VIP_CHANNEL_ID, name: 'VIP' }]));
+        await harness.kv.put('subscription_plans', JSON.stringify([{ id: 'vip', name: 'VIP Month', durationDays: 30, price: '900', channelId: VIP_CHANNEL_ID }]));
+
+        await harness.sendUpdate(textMessage(user, '/start'));
+        await harness.sendUpdate(callbackQuery(user, '/choose_plan vip'));
+        await harness.sendUpdate(textMessage(user, '0912345678'));
+        await harness.sendUpdate(photoMessage(user));
+        await harness.sendUpdate(callbackQuery(user, '/confirm_payment'));
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+        expect((await harness.kv.getJSON<any>(`subscription:${user.id}:${VIP_CHANNEL_ID}`)).status).toBe('ACTIVE');
+
+        // Neither a lookup nor the daily sweep's legacy migration grants the default channel
+        await harness.sendUpdate(textMessage(user, '/status'));
+        await harness.runScheduled('0 6 * * *');
+        expect(await getSubscriptionRecord(user.id)).toBeNull();
+    });
+
+    it('renews the subscription on its own channel when no plans are configured', async () => {
+        const expiresAt = Date.now() + 2 * 24 * 60 * 60 * 1000;
+        await harness.kv.put('channel_registry', JSON.stringify([{ id: VIP_CHANNEL_ID, name: 'VIP' }]));
+        await harness.kv.put(`subscription:${user.id}:${VIP_CHANNEL_ID}`, JSON.stringify({ userId: user.id, channelId: VIP_CHANNEL_ID, status: 'ACTIVE', startsAt: Date.now(), expiresAt }));
+
+        await harness.sendUpdate(callbackQuery(user, '/renew'));
+        await harness.sendUpdate(textMessage(user, '0912345678'));
+        await harness.sendUpdate(photoMessage(user));
+        await harness.sendUpdate(callbackQuery(user, '/confirm_payment'));
+        await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+
+        expect((await harness.kv.getJSON<any>(`subscription:${user.id}:${VIP_CHANNEL_ID}`)).expiresAt).toBeGreaterThan(expiresAt);
+        expect(await getSubscriptionRecord(user.id)).toBeNull();
+        expect(harness.bot.callsTo('createChatInviteLink')).toHaveLength(0);
+    });
+
+    it('sends a manual invite for the channel the admin picks', async () => {
+        await harness.kv.put('channel_registry', JSON.stringify([{ id: VIP_CHANNEL_ID, name: 'VIP' }]));
+
+        await harness.sendUpdate(callbackQuery(admin, '/invite_user_flow'));
+        const picker = harness.bot.lastMessageTo(admin.id).reply_markup.inline_keyboard.flat().map((button: any) => button.callback_data);
+        expect(picker).toEqual([`/invite_user_flow ${CHANNEL_ID}`, `/invite_user_flow ${VIP_CHANNEL_ID}`, '/cancel']);
+
+        await harness.sendUpdate(callbackQuery(admin, `/invite_user_flow ${VIP_CHANNEL_ID}`));
+        await harness.sendUpdate(textMessage(admin, friend.id.toString()));
+
+        const [invite] = harness.bot.callsTo('createChatInviteLink');
+        expect(invite.params.chat_id).toBe(VIP_CHANNEL_ID);
+        expect(harness.bot.lastMessageTo(friend.id).text).toContain('https://t.me/+fakeInvite1');
+    });
+});
+
+describe('payment verifier', () => {
+    const MOCK_SMS = "Dear Sara, You have transferred ETB 500.00 to Selam (2519****1234) on 12/05/2024 14:23:11. Your transaction number is MOCK12345678. telebirr";
+
+    it('auto-approves a mock transaction while running against a fake Bot API', async () => {
+        harness = createHarness({ PAYMENT_VERIFIER: 'mock' });
+        await setUpBot();
+
+        await submitPayment(user, MOCK_SMS);
+
+        expect((await getState(user.id)).status).toBe('APPROVED');
+    });
+
+    it('ignores the mock verifier against the real Bot API and warns in the admin menu', async () => {
+        harness = createHarness({ PAYMENT_VERIFIER: 'mock', TELEGRAM_API_BASE: undefined });
+        await setUpBot();
+
+        await submitPayment(user, MOCK_SMS);
+        expect((await getState(user.id)).status).toBe('PENDING_ADMIN_REVIEW');
+
+        await harness.sendUpdate(textMessage(admin, '/start')); // Admins get the admin menu
+        expect(harness.bot.lastMessageTo(admin.id).text).toContain('PAYMENT\\_VERIFIER=mock *is ignored*');
+    });
+});
+
+describe('Telegram client', () => {
+    it('retries a call that failed with a server error', async () => {
+        let failures = 1;
+        harness.bot.on('sendMessage', params => failures-- > 0
+            ? { ok: false, error_code: 502, description: 'Bad Gateway' }
+            : { ok: true, result: { message_id: 1, chat: { id: params.chat_id, type: 'private' }, date: 0 } });
+
+        await harness.sendUpdate(textMessage(user, '/help'));
+
+        const sends = harness.bot.callsTo('sendMessage').filter(call => call.params.chat_id === user.id);
+        expect(sends).toHaveLength(2);
+        expect(sends[1].params).toEqual(sends[0].params);
+    });
+});
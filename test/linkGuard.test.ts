@@ -0,0 +1,100 @@
+// Channel access: members joining are matched to the user their invite link was made for (link guard),
+// and in join-request mode only subscribers' requests are approved
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHarness, ADMIN_SETUP_CODE, type Harness } from './support/harness';
+import { callbackQuery, chatJoinRequest, chatMemberJoin, photoMessage, textMessage, type TestUser } from './support/updates';
+
+const CHANNEL_ID = "-1001234567890";
+const admin: TestUser = { id: 7000001, first_name: 'Abebe' };
+const subscriber: TestUser = { id: 8000001, first_name: 'Sara' };
+const friend: TestUser = { id: 8000002, first_name: 'Dawit' };
+const stranger: TestUser = { id: 8000003, first_name: 'Hana', language_code: 'am' };
+
+let harness: Harness;
+let inviteLink: string;
+
+// Pays through the manual flow and gets approved by the admin
+async function payAndApprove(user: TestUser) {
+    await harness.sendUpdate(textMessage(user, '/start'));
+    await harness.sendUpdate(textMessage(user, '0912345678'));
+    await harness.sendUpdate(photoMessage(user));
+    await harness.sendUpdate(callbackQuery(user, '/confirm_payment'));
+    await harness.sendUpdate(callbackQuery(admin, `/approve ${user.id}`));
+}
+
+beforeEach(async () => {
+    harness = createHarness();
+    await harness.sendUpdate(textMessage(admin, `/claim_admin ${ADMIN_SETUP_CODE}`));
+    await harness.sendUpdate(callbackQuery(admin, '/set_channel_id_flow', 1));
+    await harness.sendUpdate(textMessage(admin, CHANNEL_ID));
+    await harness.sendUpdate(textMessage(friend, '/help')); // Registers the friend
+
+    await payAndApprove(subscriber);
+    inviteLink = (await harness.kv.getJSON<any>(`subscription:${subscriber.id}:${CHANNEL_ID}`)).inviteLink;
+    harness.bot.reset();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('link guard', () => {
+    it('lets a subscriber join with their own link', async () => {
+        await harness.sendUpdate(chatMemberJoin(subscriber, CHANNEL_ID, inviteLink));
+
+        expect(harness.bot.messagesTo(admin.id)).toHaveLength(0);
+        expect((await harness.kv.getJSON<any>(`user_profile:${subscriber.id}`)).flaggedAt).toBeUndefined();
+    });
+
+    it('flags a member who joined with someone else\'s link and the user who shared it', async () => {
+        await harness.sendUpdate(chatMemberJoin(friend, CHANNEL_ID, inviteLink));
+
+        const alert = harness.bot.lastMessageTo(admin.id);
+        expect(alert.text).toContain(`invite link of User ID ${subscriber.id}`);
+        expect(alert.reply_markup.inline_keyboard.map((row: any) => row[0].callback_data))
+            .toEqual([`/remove_member ${friend.id} ${CHANNEL_ID}`, `/ban_menu ${subscriber.id} ${CHANNEL_ID}`]);
+        expect((await harness.kv.getJSON<any>(`user_profile:${friend.id}`)).flaggedAt).toBeGreaterThan(0);
+        expect((await harness.kv.getJSON<any>(`user_profile:${subscriber.id}`)).flaggedAt).toBeGreaterThan(0);
+        expect(harness.bot.callsTo('banChatMember')).toHaveLength(0);
+    });
+
+    it('removes members without a link from the bot in remove mode', async () => {
+        await harness.sendUpdate(callbackQuery(admin, '/set_link_guard REMOVE', 2));
+        await harness.sendUpdate(chatMemberJoin(friend, CHANNEL_ID));
+
+        expect(harness.bot.callsTo('banChatMember')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: friend.id });
+        expect(harness.bot.callsTo('unbanChatMember')[0].params).toMatchObject({ chat_id: CHANNEL_ID, user_id: friend.id });
+        expect(harness.bot.lastMessageTo(admin.id).text).toContain('Removed from the channel');
+    });
+});
+
+describe('join-request mode', () => {
+    beforeEach(async () => {
+        await harness.sendUpdate(callbackQuery(admin, '/set_access_mode JOIN_REQUEST', 2));
+        harness.bot.reset();
+    });
+
+    it('sends approved users the channel\'s join-request link instead of a single-use link', async () => {
+        await payAndApprove(friend);
+
+        const [linkCall] = harness.bot.callsTo('createChatInviteLink');
+        expect(linkCall.params).toMatchObject({ chat_id: CHANNEL_ID, creates_join_request: true });
+        expect(linkCall.params.member_limit).toBeUndefined();
+        const subscription = await harness.kv.getJSON<any>(`subscription:${friend.id}:${CHANNEL_ID}`);
+        expect(subscription.status).toBe('ACTIVE');
+        expect(subscription.inviteLink).toBeUndefined();
+        expect(harness.bot.messagesTo(friend.id).some(message => message.text.includes('Request to Join'))).toBe(true);
+
+        await harness.sendUpdate(chatJoinRequest(friend, CHANNEL_ID, 'https://t.me/+fakeInvite2'));
+        expect(harness.bot.callsTo('approveChatJoinRequest')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: friend.id });
+    });
+
+    it('declines requests from users without a subscription and tells them how to subscribe', async () => {
+        await harness.sendUpdate(chatJoinRequest(stranger, CHANNEL_ID, 'https://t.me/+fakeInvite2'));
+
+        expect(harness.bot.callsTo('declineChatJoinRequest')[0].params).toEqual({ chat_id: CHANNEL_ID, user_id: stranger.id });
+        expect(harness.bot.callsTo('approveChatJoinRequest')).toHaveLength(0);
+        expect(harness.bot.lastMessageTo(stranger.id).text).toContain('/start'); // In the user's Telegram language
+        expect(harness.bot.lastMessageTo(stranger.id).text).toContain('ጥያቄ');
+    });
+});
@@ -0,0 +1,107 @@
+// Fake Telegram Bot API. The worker is pointed at it with TELEGRAM_API_BASE; every call is recorded
+// and answered with a Telegram-shaped response. Requests to any other host fail the test, so the
+// suite never touches the network.
+
+export const FAKE_BOT_API_BASE = "https://telegram.test";
+
+export interface BotApiCall {
+    method: string;
+    params: any;
+}
+
+type MethodHandler = (params: any) => { ok: true; result: any } | { ok: false; error_code: number; description: string; parameters?: { retry_after?: number } };
+
+export class FakeBotApi {
+    calls: BotApiCall[] = [];
+    private nextMessageId = 1000;
+    private nextInviteId = 1;
+    private memberStatuses = new Map<string, string>(); // "<chat>:<user>" → ChatMember status
+    private overrides = new Map<string, MethodHandler>();
+
+    // apiBase is where the worker sends Bot API calls: FAKE_BOT_API_BASE, or the real API's address
+    // for tests that run the worker without TELEGRAM_API_BASE (the calls still never leave the process)
+    constructor(private botToken: string, private apiBase = FAKE_BOT_API_BASE) { }
+
+    // Replaces the default answer for one method (e.g. to simulate a blocked user)
+    on(method: string, handler: MethodHandler): void {
+        this.overrides.set(method, handler);
+    }
+
+    setMemberStatus(chatId: string, userId: number, status: string): void {
+        this.memberStatuses.set(`${chatId}:${userId}`, status);
+    }
+
+    callsTo(method: string): BotApiCall[] {
+        return this.calls.filter(call => call.method === method);
+    }
+
+    // Messages sent to (or edited in) one chat, oldest first. Photo and document captions are in text.
+    messagesTo(chatId: number): any[] {
+        return this.calls
+            .filter(call => ['sendMessage', 'sendPhoto', 'sendDocument', 'editMessageText'].includes(call.method) && call.params.chat_id === chatId)
+            .map(call => ({ ...call.params, text: call.params.text ?? call.params.caption }));
+    }
+
+    lastMessageTo(chatId: number): any | undefined {
+        const messages = this.messagesTo(chatId);
+        return messages[messages.length - 1];
+    }
+
+    reset(): void {
+        this.calls = [];
+    }
+
+    // Installed as the global fetch
+    fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const request = new Request(input, init);
+        const prefix = `${this.apiBase}/bot${this.botToken}/`;
+        if (!request.url.startsWith(prefix)) {
+            throw new Error(`Unexpected network request in test: ${request.method} ${request.url}`);
+        }
+
+        const method = request.url.slice(prefix.length);
+        const body = await request.text();
+        const params = body ? JSON.parse(body) : {};
+        this.calls.push({ method, params });
+
+        const handler = this.overrides.get(method);
+        const answer = handler ? handler(params) : this.defaultAnswer(method, params);
+        const status = answer.ok ? 200 : answer.error_code;
+        return new Response(JSON.stringify(answer), { status, headers: { 'Content-Type': 'application/json' } });
+    };
+
+    private defaultAnswer(method: string, params: any): ReturnType<MethodHandler> {
+        switch (method) {
+            case 'sendMessage':
+            case 'sendPhoto':
+            case 'sendDocument':
+            case 'editMessageText':
+                return { ok: true, result: { message_id: this.nextMessageId++, chat: { id: params.chat_id, type: 'private' }, date: Math.floor(Date.now() / 1000), text: params.text, caption: params.caption } };
+            case 'copyMessage':
+                return { ok: true, result: { message_id: this.nextMessageId++ } };
+            case 'answerCallbackQuery':
+            case 'deleteMessage':
+            case 'revokeChatInviteLink':
+            case 'unbanChatMember':
+            case 'banChatMember':
+            case 'approveChatJoinRequest':
+            case 'declineChatJoinRequest':
+            case 'setWebhook':
+                return { ok: true, result: true };
+            case 'createChatInviteLink':
+                return { ok: true, result: { invite_link: `https://t.me/+fakeInvite${this.nextInviteId++}`, name: params.name, member_limit: params.member_limit, creates_join_request: params.creates_join_request === true, is_primary: false, is_revoked: false } };
+            case 'getChat':
+                return { ok: true, result: { id: params.chat_id, type: 'private', first_name: `User${params.chat_id}` } };
+            case 'getChatMember': {
+                const status = this.memberStatuses.get(`${params.chat_id}:${params.user_id}`) || 'left';
+                return { ok: true, result: { status, user: { id: params.user_id, is_bot: false, first_name: `User${params.user_id}` } } };
+            }
+            case 'getMe':
+                return { ok: true, result: { id: 999000, is_bot: true, first_name: 'Test Bot', username: 'test_bot' } };
+            case 'getWebhookInfo':
+                return { ok: true, result: { url: '', pending_update_count: 0 } };
+            default:
+                return { ok: false, error_code: 404, description: 'Not Found: method not found' };
+        }
+    }
+}
@@ -0,0 +1,44 @@
+// Fake Chapa API. The worker is pointed at it with CHAPA_API_BASE; checkouts initialize successfully
+// and verify answers with whatever transaction a test recorded with setTransaction.
+
+export const FAKE_CHAPA_API_BASE = "https://chapa.test";
+
+export interface ChapaTransaction {
+    status: 'success' | 'failed';
+    amount: string;
+    currency: string;
+}
+
+function jsonResponse(body: unknown, init: { status?: number } = {}): Response {
+    return new Response(JSON.stringify(body), { status: init.status ?? 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+export class FakeChapaApi {
+    initialized: any[] = []; // Bodies of /v1/transaction/initialize requests
+    private transactions = new Map<string, ChapaTransaction>();
+
+    setTransaction(txRef: string, transaction: ChapaTransaction): void {
+        this.transactions.set(txRef, transaction);
+    }
+
+    handles(url: string): boolean {
+        return url.startsWith(`${FAKE_CHAPA_API_BASE}/`);
+    }
+
+    fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const request = new Request(input, init);
+        const path = request.url.slice(FAKE_CHAPA_API_BASE.length);
+
+        if (path === '/v1/transaction/initialize') {
+            const body = await request.json() as any;
+            this.initialized.push(body);
+            return jsonResponse({ status: 'success', data: { checkout_url: `https://checkout.chapa.test/${body.tx_ref}` } });
+        }
+        if (path.startsWith('/v1/transaction/verify/')) {
+            const transaction = this.transactions.get(decodeURIComponent(path.slice('/v1/transaction/verify/'.length)));
+            if (!transaction) return jsonResponse({ status: 'failed', message: 'Invalid transaction' }, { status: 404 });
+            return jsonResponse({ status: 'success', data: transaction });
+        }
+        return jsonResponse({ status: 'failed', message: 'Not found' }, { status: 404 });
+    };
+}
@@ -0,0 +1,119 @@
+// Runs the worker in-process: an in-memory KV, the real UserLock Durable Object class on in-memory
+// storage, and the fake Bot API and fake Chapa API installed as the global fetch. Updates and Chapa
+// webhooks go through the same fetch handler (and routes) Telegram and Chapa call in production.
+import { vi } from 'vitest';
+import worker, { UserLock, type Env, type UserLockState } from '../../src/index';
+import { FakeBotApi, FAKE_BOT_API_BASE } from './fakeBotApi';
+import { FakeChapaApi, FAKE_CHAPA_API_BASE } from './fakeChapaApi';
+import { MemoryKV } from './memoryKV';
+
+export const BOT_TOKEN = "123456:TEST-TOKEN";
+export const WEBHOOK_SECRET = "test-webhook-secret";
+export const ADMIN_SETUP_CODE = "test-setup-code";
+export const CHAPA_SECRET_KEY = "CHASECK_TEST-key";
+export const CHAPA_WEBHOOK_SECRET = "test-chapa-webhook-secret";
+export const REAL_BOT_API_BASE = "https://api.telegram.org";
+
+// Hex HMAC-SHA256 of a webhook body, as Chapa sends in x-chapa-signature
+export async function signChapaBody(body: string, secret = CHAPA_WEBHOOK_SECRET): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+    return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// DurableObjectNamespace with one UserLock instance per name, as in the Workers runtime. Requests to
+// one instance run one at a time, like the input gate that makes a real acquire atomic.
+function createUserLockNamespace(env: Env) {
+    const instances = new Map<string, UserLock>();
+    const queues = new Map<string, Promise<unknown>>();
+    const getInstance = (name: string) => {
+        if (!instances.has(name)) {
+            const values = new Map<string, unknown>();
+            const state: UserLockState = {
+                storage: {
+                    get: async <T>(key: string) => values.get(key) as T | undefined,
+                    put: async <T>(key: string, value: T) => { values.set(key, value); },
+                    delete: async (key: string) => values.delete(key),
+                },
+            };
+            instances.set(name, new UserLock(state, env));
+        }
+        return instances.get(name)!;
+    };
+    return {
+        idFromName: (name: string) => name,
+        get: (id: string) => ({
+            fetch: (input: RequestInfo, init?: RequestInit) => {
+                const response = (queues.get(id) || Promise.resolve()).then(() => getInstance(id).fetch(new Request(input, init)));
+                queues.set(id, response.catch(() => { }));
+                return response;
+            },
+        }),
+    };
+}
+
+export interface Harness {
+    env: Env;
+    kv: MemoryKV;
+    bot: FakeBotApi;
+    chapa: FakeChapaApi;
+    sendUpdate(update: any): Promise<Response>;
+    sendChapaWebhook(event: any, signature?: string): Promise<Response>; // Signed with CHAPA_WEBHOOK_SECRET unless given
+    holdLock(name: string): Promise<void>; // Takes a UserLock as another actor would, until it expires
+    runScheduled(cron: string): Promise<void>;
+}
+
+export function createHarness(envOverrides: Partial<Env> = {}): Harness {
+    const kv = new MemoryKV();
+    // Passing TELEGRAM_API_BASE: undefined runs the worker as in production, against the real API's address
+    const bot = new FakeBotApi(BOT_TOKEN, 'TELEGRAM_API_BASE' in envOverrides ? envOverrides.TELEGRAM_API_BASE || REAL_BOT_API_BASE : FAKE_BOT_API_BASE);
+    const chapa = new FakeChapaApi();
+    vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+        chapa.handles(new Request(input, init).url) ? chapa.fetch(input, init) : bot.fetch(input, init));
+
+    const env = {
+        BOT_TOKEN,
+        WEBHOOK_SECRET,
+        ADMIN_SETUP_CODE,
+        TELEGRAM_API_BASE: FAKE_BOT_API_BASE,
+        CHAPA_API_BASE: FAKE_CHAPA_API_BASE,
+        KV_BINDING: kv,
+        ...envOverrides,
+    } as unknown as Env;
+    env.USER_LOCK = createUserLockNamespace(env) as unknown as DurableObjectNamespace;
+
+    // waitUntil promises are awaited before a call returns, so assertions see their effects
+    const runWithContext = async <T>(run: (ctx: ExecutionContext) => Promise<T>): Promise<T> => {
+        const pending: Promise<unknown>[] = [];
+        const ctx = { waitUntil: (promise: Promise<unknown>) => { pending.push(promise); }, passThroughOnException: () => { } } as unknown as ExecutionContext;
+        const result = await run(ctx);
+        await Promise.all(pending);
+        return result;
+    };
+
+    return {
+        env,
+        kv,
+        bot,
+        chapa,
+        sendUpdate: (update: any) => runWithContext(ctx => worker.fetch(new Request('https://worker.test/webhook', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': WEBHOOK_SECRET },
+            body: JSON.stringify(update),
+        }), env, ctx)),
+        sendChapaWebhook: async (event: any, signature?: string) => {
+            const body = JSON.stringify(event);
+            return await runWithContext(async ctx => worker.fetch(new Request('https://worker.test/chapa/webhook', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'x-chapa-signature': signature ?? await signChapaBody(body) },
+                body,
+            }), env, ctx));
+        },
+        holdLock: async (name: string) => {
+            const stub = env.USER_LOCK.get(env.USER_LOCK.idFromName(name));
+            await stub.fetch('https://user-lock/', { method: 'POST', body: JSON.stringify({ op: 'acquire', token: 'test-holder', holder: 'test', action: 'TEST' }) });
+        },
+        runScheduled: (cron: string) => runWithContext(ctx => worker.scheduled({ cron, scheduledTime: Date.now(), noRetry: () => { } } as ScheduledController, env, ctx)),
+    };
+}
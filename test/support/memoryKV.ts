@@ -0,0 +1,65 @@
+// In-memory stand-in for a KV namespace: the calls src/index.ts makes (get, put, delete, list),
+// with expirationTtl, key metadata and cursor-based listing in lexicographic order.
+
+interface StoredValue {
+    value: string;
+    metadata?: unknown;
+    expiresAt?: number; // ms timestamp, from expirationTtl
+}
+
+export class MemoryKV {
+    private entries = new Map<string, StoredValue>();
+
+    private read(key: string): StoredValue | null {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry;
+    }
+
+    async get(key: string, type?: string): Promise<any> {
+        const entry = this.read(key);
+        if (!entry) return null;
+        return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    }
+
+    async put(key: string, value: string, options: { expirationTtl?: number; metadata?: unknown } = {}): Promise<void> {
+        this.entries.set(key, {
+            value: value,
+            metadata: options.metadata,
+            expiresAt: options.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    // The cursor is simply the last key returned
+    async list(options: { prefix?: string; cursor?: string; limit?: number } = {}): Promise<any> {
+        const prefix = options.prefix || '';
+        const limit = options.limit || 1000;
+        const names = [...this.entries.keys()]
+            .filter(name => name.startsWith(prefix) && (!options.cursor || name > options.cursor) && this.read(name))
+            .sort();
+        const page = names.slice(0, limit);
+        const listComplete = names.length <= limit;
+        return {
+            keys: page.map(name => ({ name, metadata: this.entries.get(name)!.metadata })),
+            list_complete: listComplete,
+            cursor: listComplete ? undefined : page[page.length - 1],
+        };
+    }
+
+    // Test helpers (not part of the KV API)
+    async getJSON<T>(key: string): Promise<T | null> {
+        return await this.get(key, 'json');
+    }
+
+    keys(prefix = ''): string[] {
+        return [...this.entries.keys()].filter(name => name.startsWith(prefix) && this.read(name)).sort();
+    }
+}
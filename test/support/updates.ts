@@ -0,0 +1,96 @@
+// Telegram updates in the shape the Bot API delivers them to the webhook (recorded from a private
+// chat with the bot, with IDs and file_ids replaced). Each builder returns a fresh update.
+
+let nextUpdateId = 500000000;
+let nextMessageId = 1;
+
+export interface TestUser {
+    id: number;
+    first_name: string;
+    username?: string;
+    language_code?: string;
+}
+
+function sender(user: TestUser) {
+    return { id: user.id, is_bot: false, first_name: user.first_name, username: user.username, language_code: user.language_code ?? 'en' };
+}
+
+function privateChat(user: TestUser) {
+    return { id: user.id, first_name: user.first_name, username: user.username, type: 'private' };
+}
+
+function baseMessage(user: TestUser) {
+    return {
+        message_id: nextMessageId++,
+        from: sender(user),
+        chat: privateChat(user),
+        date: Math.floor(Date.now() / 1000),
+    };
+}
+
+export function textMessage(user: TestUser, text: string) {
+    const message: any = { ...baseMessage(user), text };
+    if (text.startsWith('/')) {
+        message.entities = [{ offset: 0, length: text.split(' ')[0].length, type: 'bot_command' }];
+    }
+    return { update_id: nextUpdateId++, message };
+}
+
+// A receipt screenshot: Telegram sends several sizes of the same photo, smallest first
+export function photoMessage(user: TestUser, caption?: string) {
+    const fileId = `AgACAgQAAxkBAAI${nextMessageId}`;
+    const message: any = {
+        ...baseMessage(user),
+        photo: [
+            { file_id: `${fileId}-s`, file_unique_id: `AQAD${nextMessageId}s`, file_size: 1320, width: 90, height: 67 },
+            { file_id: `${fileId}-m`, file_unique_id: `AQAD${nextMessageId}m`, file_size: 17012, width: 320, height: 240 },
+            { file_id: `${fileId}-x`, file_unique_id: `AQAD${nextMessageId}x`, file_size: 64733, width: 1280, height: 960 },
+        ],
+    };
+    if (caption) message.caption = caption;
+    return { update_id: nextUpdateId++, message };
+}
+
+// A button press on a message the bot sent earlier (message_id 0 when it doesn't matter which)
+export function callbackQuery(user: TestUser, data: string, messageId = 0) {
+    return {
+        update_id: nextUpdateId++,
+        callback_query: {
+            id: `${user.id}${nextUpdateId}`,
+            from: sender(user),
+            message: { message_id: messageId, from: { id: 999000, is_bot: true, first_name: 'Test Bot', username: 'test_bot' }, chat: privateChat(user), date: Math.floor(Date.now() / 1000), text: '' },
+            chat_instance: `-${user.id}`,
+            data,
+        },
+    };
+}
+
+// A user joining a channel, as the chat_member update Telegram sends to a channel admin bot
+export function chatMemberJoin(user: TestUser, channelId: string, inviteLink?: string) {
+    const member = { id: user.id, is_bot: false, first_name: user.first_name, username: user.username };
+    const update: any = {
+        chat: { id: Number(channelId), title: 'Premium Signals', type: 'channel' },
+        from: member,
+        date: Math.floor(Date.now() / 1000),
+        old_chat_member: { status: 'left', user: member },
+        new_chat_member: { status: 'member', user: member },
+    };
+    if (inviteLink) {
+        update.invite_link = { invite_link: inviteLink, creator: { id: 999000, is_bot: true, first_name: 'Test Bot' }, member_limit: 1, creates_join_request: false, is_primary: false, is_revoked: false };
+    }
+    return { update_id: nextUpdateId++, chat_member: update };
+}
+
+// A join request sent through a join-request link
+export function chatJoinRequest(user: TestUser, channelId: string, inviteLink: string) {
+    return {
+        update_id: nextUpdateId++,
+        chat_join_request: {
+            chat: { id: Number(channelId), title: 'Premium Signals', type: 'channel' },
+            from: sender(user),
+            user_chat_id: user.id,
+            date: Math.floor(Date.now() / 1000),
+            invite_link: { invite_link: inviteLink, creator: { id: 999000, is_bot: true, first_name: 'Test Bot' }, creates_join_request: true, is_primary: false, is_revoked: false },
+        },
+    };
+}